@@ -1,118 +1,564 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { IpEntry } from './types';
+import { IpEntry, ExportTemplate, GeoSettings, SortState, LatencySettings, NodeMetrics, ImportPolicy, ImportOptions, DnsSettings } from './types';
 import { IpInput } from './components/IpInput';
 import { IpList } from './components/IpList';
-import { ShieldCheck, Loader2, ClipboardCheck, LayoutGrid, MapPinned, Trash2, AlertTriangle, Filter } from 'lucide-react';
-import { fetchIpGeo } from './utils/geo';
-
-const STORAGE_KEY = 'ip-manager-pro-v1.1';
-const CONCURRENT_LIMIT = 8;
-const FIXED_ID = 'fixed-placeholder-system-001';
-
-const INITIAL_FIXED_ENTRY: IpEntry = {
-  id: FIXED_ID,
-  ip: '127.0.0.1',
-  port: '80',
-  region: 'LOCAL',
-  active: true,
-  isLocked: true
-};
+import { ExportPanel } from './components/ExportPanel';
+import { LinkFanout } from './components/LinkFanout';
+import { GeoSettingsPanel } from './components/GeoSettingsPanel';
+import { JobProgressBar } from './components/JobProgressBar';
+import { LatencySettingsPanel } from './components/LatencySettingsPanel';
+import { DnsSettingsPanel } from './components/DnsSettingsPanel';
+import { QueryBar } from './components/QueryBar';
+import { UndoToast } from './components/UndoToast';
+import { WorkspaceBar } from './components/WorkspaceBar';
+import { RecoveryPrompt } from './components/RecoveryPrompt';
+import { ShieldCheck, Loader2, LayoutGrid, MapPinned, Trash2, AlertTriangle, Filter, Database, Gauge, Settings2, Undo2, Redo2 } from 'lucide-react';
+import { fetchIpGeo, DEFAULT_GEO_SETTINGS, GeoResult } from './utils/geo';
+import { mergeGeoProviders, resetGeoProviderBackoff } from './utils/geoProviders';
+import { OfflineDbInfo, restoreOfflineDatabase } from './utils/offlineGeo';
+import { restoreGeoCache } from './utils/geoCache';
+import { DEFAULT_TEMPLATES } from './utils/formatter';
+import { GEO_FILTER_FIELDS, GeoFilterField, GeoFilters, EMPTY_GEO_FILTERS, getGeoFieldValue, matchesGeoFilters } from './utils/geoDetails';
+import { sortEntries } from './utils/sort';
+import { parseQuery, matchesQuery } from './utils/query';
+import { JobQueue, JobProgress, startJobQueue } from './utils/jobQueue';
+import { DEFAULT_LATENCY_SETTINGS, measureLatency, exceedsLatencyThreshold } from './utils/latency';
+import { EntriesSetter, createHistory, applyChange, undoHistory, redoHistory, saveHistory, restoreHistory, deleteHistory } from './utils/history';
+import {
+  Workspace, WorkspaceFilters, WorkspaceStore, DEFAULT_WORKSPACE_ID, INITIAL_FIXED_ENTRY,
+  createWorkspace, cloneEntries, insertAfterPlaceholder, uniqueWorkspaceName
+} from './utils/workspace';
+import { LoadResult, loadAppData, saveAppData, flushAppData, createDefaultStore } from './utils/storage';
+import { downloadText } from './utils/file';
+import { DEFAULT_IMPORT_POLICY } from './utils/importPolicy';
+import { DEFAULT_DNS_SETTINGS, resolveDomain, expandDomainEntries } from './utils/dns';
+import { isValidHostname } from './utils/validate';
+
+const TEMPLATES_STORAGE_KEY = 'ip-manager-pro-templates-v1';
+const GEO_SETTINGS_STORAGE_KEY = 'ip-manager-pro-geo-v1';
+const LATENCY_SETTINGS_STORAGE_KEY = 'ip-manager-pro-latency-v1';
+const IMPORT_POLICY_STORAGE_KEY = 'ip-manager-pro-import-policy-v1';
+const DNS_SETTINGS_STORAGE_KEY = 'ip-manager-pro-dns-v1';
+
+// 刷新页面或撤销时，未在进行中的识别状态恢复为待识别
+const recoverPendingRegions = (list: IpEntry[]): IpEntry[] =>
+  list.some(e => e.region === '识别中...')
+    ? list.map(e => (e.region === '识别中...' ? { ...e, region: '待识别' } : e))
+    : list;
+
+// 文本输入框内的 Ctrl+Z 保留浏览器自身的撤销
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement ||
+  (target instanceof HTMLElement && target.isContentEditable) ||
+  (target instanceof HTMLInputElement && !['checkbox', 'radio', 'button', 'range', 'file'].includes(target.type));
 
 export default function App() {
-  const [entries, setEntries] = useState<IpEntry[]>([INITIAL_FIXED_ENTRY]);
-  const [copiedType, setCopiedType] = useState<'simple' | 'region' | null>(null);
+  const [history, setHistory] = useState(() => createHistory([INITIAL_FIXED_ENTRY]));
+  const entries = history.present;
+  const [notice, setNotice] = useState<string | null>(null);
+  // 不产生历史记录的普通提示（例如域名全部解析失败）
+  const [message, setMessage] = useState<string | null>(null);
+  // 非当前工作区的列表与筛选保存在 workspaces 中，当前工作区以 history 与各筛选 state 为准
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState(DEFAULT_WORKSPACE_ID);
+  const [isWorkspaceLoaded, setIsWorkspaceLoaded] = useState(false);
+  // 已保存数据损坏时等待用户选择，期间不写入存储
+  const [recovery, setRecovery] = useState<LoadResult | null>(null);
+  const [templates, setTemplates] = useState<ExportTemplate[]>(DEFAULT_TEMPLATES);
   const [includeInactive, setIncludeInactive] = useState(false);
-  const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
+  const [geoFilters, setGeoFilters] = useState<GeoFilters>(EMPTY_GEO_FILTERS);
+  const [filterField, setFilterField] = useState<GeoFilterField>('region');
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [query, setQuery] = useState('');
   const [isIdentifying, setIsIdentifying] = useState(false);
+  const [identifyProgress, setIdentifyProgress] = useState<JobProgress | null>(null);
   const [isConfirmingClear, setIsConfirmingClear] = useState(false);
+  const [geoSettings, setGeoSettings] = useState<GeoSettings>(DEFAULT_GEO_SETTINGS);
+  const [offlineDb, setOfflineDb] = useState<OfflineDbInfo | null>(null);
+  const [showGeoSettings, setShowGeoSettings] = useState(false);
+  const [latencySettings, setLatencySettings] = useState<LatencySettings>(DEFAULT_LATENCY_SETTINGS);
+  const [showLatencySettings, setShowLatencySettings] = useState(false);
+  const [importPolicy, setImportPolicy] = useState<ImportPolicy>(DEFAULT_IMPORT_POLICY);
+  const [dnsSettings, setDnsSettings] = useState<DnsSettings>(DEFAULT_DNS_SETTINGS);
+  const [isResolving, setIsResolving] = useState(false);
+  const [resolveProgress, setResolveProgress] = useState<JobProgress | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [latencyProgress, setLatencyProgress] = useState<JobProgress | null>(null);
   
   const clearTimerRef = useRef<number | null>(null);
+  const identifyJobRef = useRef<JobQueue | null>(null);
+  // 识别中条目的原有地区，切换工作区时据此还原快照，避免"识别中..."被保存
+  const pendingRegionsRef = useRef<Map<string, string>>(new Map());
+  const latencyJobRef = useRef<JobQueue | null>(null);
+  const resolveJobRef = useRef<JobQueue | null>(null);
+  const noticePendingRef = useRef(false);
+  const activeWorkspaceRef = useRef(DEFAULT_WORKSPACE_ID);
+  const historyRestoredRef = useRef(false);
+
+  const setEntries: EntriesSetter = useCallback((action, options) => {
+    setHistory(prev => applyChange(prev, action, options));
+    if (options?.notice) {
+      noticePendingRef.current = true;
+      setNotice(options.notice);
+    }
+  }, []);
+
+  const applyWorkspaceFilters = (filters: WorkspaceFilters) => {
+    setIncludeInactive(filters.includeInactive);
+    setGeoFilters(filters.geoFilters);
+    setQuery(filters.query);
+    setSort(filters.sort);
+  };
+
+  /**
+   * 载入工作区的列表、筛选条件与撤销历史
+   */
+  const openWorkspace = useCallback((workspace: Workspace) => {
+    activeWorkspaceRef.current = workspace.id;
+    historyRestoredRef.current = false;
+    setActiveWorkspaceId(workspace.id);
+    // 上次识别过程中刷新页面的条目恢复为待识别
+    setHistory(createHistory(recoverPendingRegions(workspace.entries)));
+    applyWorkspaceFilters(workspace.filters);
+    setNotice(null);
+    restoreHistory(workspace.id).then(stored => {
+      // 恢复完成前已切换工作区或已产生新的历史时不再覆盖
+      if (activeWorkspaceRef.current !== workspace.id) return;
+      historyRestoredRef.current = true;
+      if (!stored) return;
+      setHistory(prev => prev.past.length > 0 || prev.future.length > 0
+        ? prev
+        : { ...prev, past: stored.past.map(recoverPendingRegions), future: stored.future.map(recoverPendingRegions) });
+    });
+  }, []);
+
+  const openStore = useCallback((store: WorkspaceStore) => {
+    setWorkspaces(store.workspaces);
+    openWorkspace(store.workspaces.find(w => w.id === store.activeId) || store.workspaces[0]);
+  }, [openWorkspace]);
 
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
+    loadAppData().then(result => {
+      openStore(result.store);
+      if (result.status !== 'ok') setRecovery(result);
+      setIsWorkspaceLoaded(true);
+    });
+
+    const savedTemplates = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    if (savedTemplates) {
       try {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-          const others = parsed.filter(e => e.id !== FIXED_ID);
-          setEntries([INITIAL_FIXED_ENTRY, ...others]);
-        }
+        const parsed = JSON.parse(savedTemplates);
+        if (Array.isArray(parsed)) setTemplates(parsed);
       } catch (e) {
-        console.error("Storage corrupted", e);
+        console.error("Template storage corrupted", e);
       }
     }
-  }, []);
 
-  useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
-  }, [entries]);
-
-  // 提取所有可用的地区列表
-  const availableRegions = useMemo(() => {
-    const regions = entries
-      .map(e => e.region)
-      .filter(r => r && !['待识别', '识别中...', '未知', 'FAIL', 'LOCAL', ''].includes(r));
-    return Array.from(new Set(regions)).sort();
-  }, [entries]);
-
-  // 计算当前显示的过滤后列表
-  const displayEntries = useMemo(() => {
-    return entries.filter(e => {
-      const activeFilter = includeInactive ? true : e.active;
-      const regionFilter = selectedRegions.length === 0 || selectedRegions.includes(e.region);
-      return activeFilter && regionFilter;
-    });
-  }, [entries, includeInactive, selectedRegions]);
+    const savedGeoSettings = localStorage.getItem(GEO_SETTINGS_STORAGE_KEY);
+    if (savedGeoSettings) {
+      try {
+        const parsed = JSON.parse(savedGeoSettings);
+        setGeoSettings({ ...DEFAULT_GEO_SETTINGS, ...parsed, providers: mergeGeoProviders(parsed.providers) });
+      } catch (e) {
+        console.error("Geo settings corrupted", e);
+      }
+    }
 
-  const handleIdentifyRegions = useCallback(async () => {
-    const toIdentify = entries.filter(e => 
-      !e.isLocked && (!e.region || ['待识别', '未知', '识别中...', 'FAIL', ''].includes(e.region))
+    const savedLatencySettings = localStorage.getItem(LATENCY_SETTINGS_STORAGE_KEY);
+    if (savedLatencySettings) {
+      try {
+        setLatencySettings({ ...DEFAULT_LATENCY_SETTINGS, ...JSON.parse(savedLatencySettings) });
+      } catch (e) {
+        console.error("Latency settings corrupted", e);
+      }
+    }
+
+    const savedImportPolicy = localStorage.getItem(IMPORT_POLICY_STORAGE_KEY);
+    if (savedImportPolicy) {
+      try {
+        const parsed = JSON.parse(savedImportPolicy);
+        if (Array.isArray(parsed?.rules)) setImportPolicy({ rules: parsed.rules });
+      } catch (e) {
+        console.error("Import policy corrupted", e);
+      }
+    }
+
+    const savedDnsSettings = localStorage.getItem(DNS_SETTINGS_STORAGE_KEY);
+    if (savedDnsSettings) {
+      try {
+        setDnsSettings({ ...DEFAULT_DNS_SETTINGS, ...JSON.parse(savedDnsSettings) });
+      } catch (e) {
+        console.error("DNS settings corrupted", e);
+      }
+    }
+
+    restoreOfflineDatabase().then(setOfflineDb);
+    restoreGeoCache();
+
+    window.addEventListener('pagehide', flushAppData);
+    return () => window.removeEventListener('pagehide', flushAppData);
+  }, [openStore]);
+
+  const currentFilters = useMemo<WorkspaceFilters>(
+    () => ({ includeInactive, geoFilters, query, sort }),
+    [includeInactive, geoFilters, query, sort]
+  );
+
+  // 将当前工作区的最新状态合并回工作区列表，仍在识别的条目还原为原有地区
+  const snapshotWorkspaces = useCallback((list: Workspace[]) => {
+    const pending = pendingRegionsRef.current;
+    const snapshot = pending.size === 0 ? entries : entries.map(e =>
+      e.region === '识别中...' && pending.has(e.id) ? { ...e, region: pending.get(e.id) || '待识别' } : e
     );
+    return list.map(w => (w.id === activeWorkspaceId ? { ...w, entries: snapshot, filters: currentFilters } : w));
+  }, [activeWorkspaceId, entries, currentFilters]);
+
+  useEffect(() => {
+    if (!isWorkspaceLoaded || recovery) return;
+    saveAppData({ activeId: activeWorkspaceId, workspaces: snapshotWorkspaces(workspaces) });
+  }, [isWorkspaceLoaded, recovery, activeWorkspaceId, workspaces, snapshotWorkspaces]);
+
+  const handleDownloadBackup = () => {
+    if (recovery?.backup === undefined) return;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadText(`ip-manager-backup-${date}.json`, recovery.backup, 'application/json');
+  };
+
+  const handleResetStorage = () => {
+    cancelJobs();
+    openStore(createDefaultStore());
+    setRecovery(null);
+  };
+
+  useEffect(() => {
+    // 历史恢复完成前不写入，避免空历史覆盖已保存的记录
+    if (!isWorkspaceLoaded || !historyRestoredRef.current) return;
+    saveHistory(activeWorkspaceRef.current, history.past, history.future);
+  }, [isWorkspaceLoaded, history.past, history.future]);
+
+  // 提示只对应触发它的那一步，之后有新的历史变化时自动收起
+  useEffect(() => {
+    if (noticePendingRef.current) noticePendingRef.current = false;
+    else setNotice(null);
+  }, [history.past]);
+
+  useEffect(() => {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  }, [templates]);
+
+  useEffect(() => {
+    localStorage.setItem(GEO_SETTINGS_STORAGE_KEY, JSON.stringify(geoSettings));
+  }, [geoSettings]);
+
+  useEffect(() => {
+    localStorage.setItem(LATENCY_SETTINGS_STORAGE_KEY, JSON.stringify(latencySettings));
+  }, [latencySettings]);
 
+  useEffect(() => {
+    localStorage.setItem(IMPORT_POLICY_STORAGE_KEY, JSON.stringify(importPolicy));
+  }, [importPolicy]);
+
+  useEffect(() => {
+    localStorage.setItem(DNS_SETTINGS_STORAGE_KEY, JSON.stringify(dnsSettings));
+  }, [dnsSettings]);
+
+  // 提取当前筛选维度下所有可用的取值
+  const availableValues = useMemo(() => {
+    const values = entries
+      .map(e => getGeoFieldValue(e, filterField))
+      .filter((v): v is string => !!v);
+    return Array.from(new Set(values)).sort();
+  }, [entries, filterField]);
+
+  const selectedValues = geoFilters[filterField];
+  const activeFilterCount = GEO_FILTER_FIELDS.filter(f => geoFilters[f.field].length > 0).length;
+
+  const parsedQuery = useMemo(() => parseQuery(query), [query]);
+
+  // 计算当前显示的过滤后列表；搜索中显式使用 active: 条件时忽略"显示全部"开关
+  const displayEntries = useMemo(() => {
+    const ignoreActiveToggle = includeInactive || parsedQuery.fields.has('active');
+    return sortEntries(entries.filter(e => {
+      const activeFilter = ignoreActiveToggle ? true : e.active;
+      return activeFilter && matchesGeoFilters(e, geoFilters) && matchesQuery(e, parsedQuery);
+    }), sort);
+  }, [entries, includeInactive, geoFilters, parsedQuery, sort]);
+
+  // 仅导出 displayEntries 中非锁定的条目
+  const exportEntries = useMemo(() => displayEntries.filter(e => !e.isLocked), [displayEntries]);
+
+  /**
+   * 识别指定条目的地区，force 为 true 时跳过缓存强制重新查询；
+   * 域名条目先通过 DoH 解析，以第一个解析结果查询地理位置
+   */
+  const runIdentification = useCallback(async (toIdentify: IpEntry[], force = false) => {
     if (toIdentify.length === 0 || isIdentifying) return;
 
     setIsIdentifying(true);
+    resetGeoProviderBackoff();
+    // 整个识别任务的逐条回写合并为一步历史
+    const group = `identify:${Date.now()}`;
+
+    // 记录原有地区，任务取消时未处理的条目恢复原值
+    const previousRegions = new Map(toIdentify.map(e => [e.id, e.region]));
+    pendingRegionsRef.current = previousRegions;
+    const workspaceId = activeWorkspaceRef.current;
 
     setEntries(prev => prev.map(e => 
-      toIdentify.some(t => t.id === e.id) ? { ...e, region: '识别中...' } : e
-    ));
+      previousRegions.has(e.id) ? { ...e, region: '识别中...' } : e
+    ), { group });
 
     const uniqueIps: string[] = Array.from(new Set(toIdentify.map(e => e.ip)));
-    const taskQueue: string[] = [...uniqueIps];
 
-    const applyResultToEntries = (ip: string, region: string) => {
-      setEntries(prev => prev.map(e => e.ip === ip && e.region === '识别中...' ? { ...e, region } : e));
-    };
+    const job = startJobQueue<GeoResult>(uniqueIps, {
+      concurrency: geoSettings.concurrency,
+      run: async (ip, signal) => {
+        if (!isValidHostname(ip)) return fetchIpGeo(ip, geoSettings, { force, signal });
+        const [address] = await resolveDomain(ip, dnsSettings, signal);
+        return address ? fetchIpGeo(address, geoSettings, { force, signal }) : { region: 'FAIL' };
+      },
+      isFailed: result => result.region === 'FAIL',
+      fallback: { region: 'FAIL' },
+      jitterMs: 150,
+      onResult: (ip, result) => {
+        setEntries(prev => prev.map(e => e.ip === ip && e.region === '识别中...' ? { ...e, region: result.region, geo: result.details } : e), { group });
+      },
+      onProgress: setIdentifyProgress
+    });
+    identifyJobRef.current = job;
+
+    await job.finished;
+    identifyJobRef.current = null;
+    pendingRegionsRef.current = new Map();
+    // 任务期间切换了工作区时，原列表已在快照中还原，不能再写入新打开的列表
+    if (activeWorkspaceRef.current === workspaceId) {
+      setEntries(prev => prev.map(e => 
+        e.region === '识别中...' && previousRegions.has(e.id) ? { ...e, region: previousRegions.get(e.id) || '待识别' } : e
+      ), { group });
+    }
+    setIsIdentifying(false);
+  }, [isIdentifying, geoSettings, dnsSettings, setEntries]);
 
-    const runWorker = async () => {
-      while (taskQueue.length > 0) {
-        const ip = taskQueue.shift();
-        if (!ip) break;
-        await new Promise(r => setTimeout(r, 50 + Math.random() * 100));
-        try {
-          const region = await fetchIpGeo(ip);
-          applyResultToEntries(ip, region);
-        } catch (err) {
-          applyResultToEntries(ip, 'FAIL');
-        }
-      }
+  const handleUndo = useCallback(() => {
+    setHistory(prev => {
+      const next = undoHistory(prev);
+      return isIdentifying ? next : { ...next, present: recoverPendingRegions(next.present) };
+    });
+  }, [isIdentifying]);
+
+  const handleRedo = useCallback(() => {
+    setHistory(prev => {
+      const next = redoHistory(prev);
+      return isIdentifying ? next : { ...next, present: recoverPendingRegions(next.present) };
+    });
+  }, [isIdentifying]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handleUndo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') handleRedo();
+      else return;
+      e.preventDefault();
     };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
 
-    const workerCount = Math.min(CONCURRENT_LIMIT, uniqueIps.length);
-    const workers = Array(workerCount).fill(null).map(() => runWorker());
+  const dismissNotice = useCallback(() => setNotice(null), []);
+  const dismissMessage = useCallback(() => setMessage(null), []);
 
-    await Promise.all(workers);
-    setIsIdentifying(false);
-  }, [entries, isIdentifying]);
+  const handleIdentifyRegions = useCallback(() => {
+    runIdentification(entries.filter(e => 
+      !e.isLocked && (!e.region || ['待识别', '未知', '识别中...', 'FAIL', ''].includes(e.region))
+    ));
+  }, [entries, runIdentification]);
+
+  const handleReidentify = useCallback((ids: string[]) => {
+    const targets = new Set(ids);
+    runIdentification(entries.filter(e => targets.has(e.id) && !e.isLocked), true);
+  }, [entries, runIdentification]);
+
+  /**
+   * 对当前筛选出的节点测速，开启自动停用时将不合格节点设为停用
+   */
+  const handleLatencyTest = useCallback(async () => {
+    const targets = exportEntries;
+    if (targets.length === 0 || isTesting) return;
+
+    setIsTesting(true);
+    const settings = latencySettings;
+    const group = `latency:${Date.now()}`;
+    const targetMap = new Map(targets.map(e => [e.id, e]));
+
+    const job = startJobQueue<NodeMetrics>(targets.map(e => e.id), {
+      concurrency: settings.concurrency,
+      run: (id, signal) => measureLatency(targetMap.get(id)!, settings, signal),
+      isFailed: metrics => !!metrics.timedOut,
+      fallback: { timedOut: true, checkedAt: Date.now() },
+      onResult: (id, metrics) => {
+        const deactivate = settings.autoDeactivate && exceedsLatencyThreshold(metrics, settings.thresholdMs);
+        setEntries(prev => prev.map(e => e.id === id
+          ? {
+              ...e,
+              metrics: { ...e.metrics, latency: metrics.latency, timedOut: metrics.timedOut, checkedAt: metrics.checkedAt },
+              active: deactivate ? false : e.active
+            }
+          : e
+        ), { group });
+      },
+      onProgress: setLatencyProgress
+    });
+    latencyJobRef.current = job;
+
+    await job.finished;
+    latencyJobRef.current = null;
+    setIsTesting(false);
+  }, [exportEntries, isTesting, latencySettings, setEntries]);
+
+  /**
+   * 通过 DoH 解析选中的域名条目，按设置在原条目后追加或直接替换为 IP 条目；
+   * 整个解析结果作为一步历史写入，可撤销
+   */
+  const handleResolveDomains = useCallback(async (ids: string[]) => {
+    if (isResolving) return;
+    const idSet = new Set(ids);
+    const targets = entries.filter(e => idSet.has(e.id) && !e.isLocked && isValidHostname(e.ip));
+    if (targets.length === 0) return;
+
+    setIsResolving(true);
+    const settings = dnsSettings;
+    const resolved = new Map<string, string[]>();
+    const failures: string[] = [];
+
+    const job = startJobQueue<{ addresses: string[]; error?: string }>(Array.from(new Set(targets.map(e => e.ip))), {
+      concurrency: 4,
+      run: (domain, signal) => resolveDomain(domain, settings, signal)
+        .then(addresses => ({ addresses }))
+        .catch(e => {
+          if (e instanceof DOMException && e.name === 'AbortError') throw e;
+          return { addresses: [], error: e instanceof Error ? e.message : String(e) };
+        }),
+      isFailed: result => result.addresses.length === 0,
+      fallback: { addresses: [] },
+      onResult: (domain, result) => {
+        if (result.addresses.length > 0) resolved.set(domain, result.addresses);
+        else failures.push(`${domain}：${result.error ?? '没有 A/AAAA 记录'}`);
+      },
+      onProgress: setResolveProgress
+    });
+    resolveJobRef.current = job;
+
+    const progress = await job.finished;
+    resolveJobRef.current = null;
+    setIsResolving(false);
+    if (progress.status === 'cancelled') return;
+
+    const firstFailure = failures.length > 0 ? `${failures[0]}${failures.length > 1 ? ` 等 ${failures.length} 个` : ''}` : '';
+    if (resolved.size === 0) {
+      setMessage(`域名解析失败：${firstFailure}`);
+      return;
+    }
+    const addressCount = Array.from(resolved.values()).reduce((sum, list) => sum + list.length, 0);
+    setEntries(prev => expandDomainEntries(prev, idSet, resolved, settings.replaceDomain).entries, {
+      notice: `已解析 ${resolved.size} 个域名，得到 ${addressCount} 个 IP`
+        + (settings.replaceDomain ? '，已替换原域名条目' : '')
+        + (firstFailure ? `；解析失败：${firstFailure}` : '')
+    });
+  }, [isResolving, entries, dnsSettings, setEntries]);
 
-  const handleAdd = useCallback((newEntries: IpEntry[]) => {
+  // 将当前排序写入存储顺序（对完整列表排序，锁定项仍置顶），之后可继续手动拖拽
+  const handleApplySort = useCallback(() => {
+    if (!sort) return;
+    setEntries(prev => sortEntries(prev, sort));
+    setSort(null);
+  }, [sort, setEntries]);
+
+  const handleAdd = useCallback((newEntries: IpEntry[], { position = 'top', regionUpdates = {}, metricsUpdates = {} }: ImportOptions = {}) => {
+    const added = newEntries.map(e => ({ ...e, region: e.region || '待识别' }));
     setEntries(prev => {
-      const fixed = prev.filter(e => e.id === FIXED_ID);
-      const others = prev.filter(e => e.id !== FIXED_ID);
-      // 将新条目插入到固定条目之后，确保在第一页可见
-      return [...fixed, ...newEntries.map(e => ({ ...e, region: e.region || '待识别' })), ...others];
+      const updated = prev.map(e => {
+        if (e.isLocked) return e;
+        let next = e;
+        // 覆盖地区时旧的 ASN / 运营商 / 城市来自上一次查询，与新地区可能矛盾，一并清除
+        if (regionUpdates[e.id] !== undefined) next = { ...next, region: regionUpdates[e.id], geo: undefined };
+        if (metricsUpdates[e.id]) next = { ...next, metrics: metricsUpdates[e.id] };
+        return next;
+      });
+      return position === 'top' ? insertAfterPlaceholder(updated, added) : [...updated, ...added];
     });
-  }, []);
+  }, [setEntries]);
+
+  // 切换或删除工作区前停止当前列表上的任务，避免结果写入其他列表
+  const cancelJobs = () => {
+    identifyJobRef.current?.cancel();
+    latencyJobRef.current?.cancel();
+    resolveJobRef.current?.cancel();
+  };
+
+  const handleSwitchWorkspace = (id: string) => {
+    const target = workspaces.find(w => w.id === id);
+    if (!target || id === activeWorkspaceId) return;
+    cancelJobs();
+    setWorkspaces(snapshotWorkspaces);
+    openWorkspace(target);
+  };
+
+  const handleCreateWorkspace = () => {
+    cancelJobs();
+    const workspace = createWorkspace(uniqueWorkspaceName('新列表', workspaces));
+    setWorkspaces(prev => [...snapshotWorkspaces(prev), workspace]);
+    openWorkspace(workspace);
+  };
+
+  const handleRenameWorkspace = (id: string, name: string) => {
+    setWorkspaces(prev => prev.map(w => (w.id === id ? { ...w, name } : w)));
+  };
+
+  const handleDuplicateWorkspace = (id: string) => {
+    const source = snapshotWorkspaces(workspaces).find(w => w.id === id);
+    if (!source) return;
+    cancelJobs();
+    const workspace = {
+      ...createWorkspace(uniqueWorkspaceName(`${source.name} 副本`, workspaces), cloneEntries(source.entries)),
+      filters: source.filters
+    };
+    setWorkspaces(prev => [...snapshotWorkspaces(prev), workspace]);
+    openWorkspace(workspace);
+  };
+
+  const handleDeleteWorkspace = (id: string) => {
+    if (workspaces.length <= 1) return;
+    const remaining = snapshotWorkspaces(workspaces).filter(w => w.id !== id);
+    setWorkspaces(remaining);
+    deleteHistory(id);
+    if (id === activeWorkspaceId) {
+      cancelJobs();
+      openWorkspace(remaining[0]);
+    }
+  };
+
+  /**
+   * 将选中的条目移动或复制到其他工作区，目标中已存在的 IP:端口 不重复添加；
+   * 撤销只作用于当前工作区，撤销移动后目标工作区中的副本仍会保留
+   */
+  const handleTransferEntries = useCallback((ids: string[], targetId: string, mode: 'move' | 'copy') => {
+    const target = workspaces.find(w => w.id === targetId);
+    if (!target || targetId === activeWorkspaceId) return;
+    const idSet = new Set(ids);
+    const selected = entries.filter(e => idSet.has(e.id) && !e.isLocked);
+    const existing = new Set(target.entries.map(e => `${e.ip}:${e.port}`));
+    const added = cloneEntries(selected.filter(e => !existing.has(`${e.ip}:${e.port}`)));
+
+    setWorkspaces(prev => prev.map(w => (w.id === targetId ? { ...w, entries: insertAfterPlaceholder(w.entries, added) } : w)));
+    if (mode === 'copy') return;
+
+    const skipped = selected.length - added.length;
+    const summary = `已移动 ${added.length} 个节点到「${target.name}」${skipped > 0 ? `，${skipped} 个已存在` : ''}`;
+    setEntries(prev => prev.filter(e => !idSet.has(e.id) || e.isLocked), { notice: summary });
+  }, [workspaces, activeWorkspaceId, entries, setEntries]);
 
   const handleClearClick = () => {
     if (!isConfirmingClear) {
@@ -122,36 +568,13 @@ export default function App() {
         setIsConfirmingClear(false);
       }, 3000);
     } else {
-      setEntries([INITIAL_FIXED_ENTRY]);
+      cancelJobs();
+      setEntries([INITIAL_FIXED_ENTRY], { notice: '已清空列表' });
       setIsConfirmingClear(false);
       if (clearTimerRef.current) window.clearTimeout(clearTimerRef.current);
     }
   };
 
-  const copyToClipboard = async (type: 'simple' | 'region') => {
-    // 关键修改：仅复制 displayEntries 中非锁定的条目
-    const targetEntries = displayEntries.filter(e => !e.isLocked);
-    
-    if (targetEntries.length === 0) return;
-
-    const text = targetEntries.map(e => {
-      const base = `${e.ip}:${e.port}`;
-      if (type === 'region') {
-        const regText = e.region && !['待识别', '识别中...', '未知', 'FAIL', '识别成功', ''].includes(e.region) ? `#${e.region}` : '';
-        return `${base}${regText}`;
-      }
-      return base;
-    }).join(',');
-
-    try {
-      await navigator.clipboard.writeText(text);
-      setCopiedType(type);
-      setTimeout(() => setCopiedType(null), 2000);
-    } catch (err) {
-      console.error('Failed to copy', err);
-    }
-  };
-
   const needsIdentification = useMemo(() => 
     entries.some(e => !e.isLocked && ['待识别', '未知', 'FAIL', ''].includes(e.region || '')), 
   [entries]);
@@ -173,73 +596,143 @@ export default function App() {
           </div>
         </header>
 
+        {recovery && (
+          <RecoveryPrompt
+            result={recovery}
+            onDownloadBackup={handleDownloadBackup}
+            onAccept={() => setRecovery(null)}
+            onReset={handleResetStorage}
+          />
+        )}
+
+        <WorkspaceBar
+          workspaces={workspaces.map(w => ({
+            id: w.id,
+            name: w.name,
+            count: (w.id === activeWorkspaceId ? entries : w.entries).filter(e => !e.isLocked).length
+          }))}
+          activeId={activeWorkspaceId}
+          onSwitch={handleSwitchWorkspace}
+          onCreate={handleCreateWorkspace}
+          onRename={handleRenameWorkspace}
+          onDuplicate={handleDuplicateWorkspace}
+          onDelete={handleDeleteWorkspace}
+        />
+
         {/* Input Section */}
         <section className="relative z-10">
-           <IpInput onAdd={handleAdd} existingEntries={entries} />
+           <IpInput onAdd={handleAdd} existingEntries={entries} policy={importPolicy} onPolicyChange={setImportPolicy} />
         </section>
 
         {/* Content Area */}
         {entries.length > 0 && (
           <div className="space-y-6 animate-in fade-in duration-500">
             {/* Action Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <button
-                onClick={() => copyToClipboard('simple')}
-                className="group flex flex-col items-center justify-center p-6 bg-white border border-slate-200 hover:border-indigo-400 rounded-2xl transition-all active:scale-[0.98] hover:shadow-xl hover:shadow-indigo-500/5"
-              >
-                <div className="flex items-center space-x-2.5 mb-1">
-                  {copiedType === 'simple' ? <ClipboardCheck className="text-emerald-500" size={20} /> : null}
-                  <span className="font-black text-slate-800 group-hover:text-indigo-600 transition-colors uppercase tracking-wider text-sm">
-                    {copiedType === 'simple' ? "复制成功" : "复制地址:端口"}
-                  </span>
-                </div>
-                <span className="text-[10px] text-slate-400 font-bold uppercase tracking-[0.2em] opacity-60">RAW 节点格式</span>
-              </button>
-              
-              <button
-                onClick={() => copyToClipboard('region')}
-                className="group flex flex-col items-center justify-center p-6 bg-white border border-slate-200 hover:border-violet-400 rounded-2xl transition-all active:scale-[0.98] hover:shadow-xl hover:shadow-violet-500/5"
-              >
-                <div className="flex items-center space-x-2.5 mb-1">
-                  {copiedType === 'region' ? <ClipboardCheck className="text-emerald-500" size={20} /> : null}
-                  <span className="font-black text-slate-800 group-hover:text-violet-600 transition-colors uppercase tracking-wider text-sm">
-                    {copiedType === 'region' ? "复制成功" : "复制地址:端口#地区"}
-                  </span>
-                </div>
-                <span className="text-[10px] text-slate-400 font-bold uppercase tracking-[0.2em] opacity-60">标注节点格式</span>
-              </button>
-            </div>
+            <ExportPanel entries={exportEntries} templates={templates} onTemplatesChange={setTemplates} />
+
+            <LinkFanout entries={exportEntries} />
 
             {/* Toolbar */}
             <div className="sticky top-4 z-40">
                 <div className="flex flex-col lg:flex-row gap-4 items-stretch lg:items-center justify-between bg-white/95 backdrop-blur-md p-3 rounded-[1.5rem] border border-slate-200 shadow-xl shadow-slate-200/40">
-                    <button
-                      onClick={handleIdentifyRegions}
-                      disabled={isIdentifying}
-                      className={`flex-1 lg:flex-none flex items-center justify-center space-x-3 px-8 py-3.5 rounded-xl font-black text-sm transition-all shadow-md active:scale-95 ${
-                        isIdentifying 
-                        ? "bg-indigo-50 text-indigo-400 cursor-wait animate-pulse border border-indigo-100" 
-                        : needsIdentification 
-                          ? "bg-indigo-600 text-white hover:bg-indigo-700 shadow-indigo-200" 
-                          : "bg-slate-100 text-slate-400 cursor-not-allowed shadow-none"
-                      }`}
-                    >
-                      {isIdentifying ? <Loader2 size={18} className="animate-spin" /> : <MapPinned size={18} />}
-                      <span>{isIdentifying ? "智能轮询中..." : needsIdentification ? "智能识别地理位置" : "节点已全部识别"}</span>
-                    </button>
+                    <div className="flex items-stretch gap-2">
+                      <button
+                        onClick={handleIdentifyRegions}
+                        disabled={isIdentifying}
+                        className={`flex-1 lg:flex-none flex items-center justify-center space-x-3 px-8 py-3.5 rounded-xl font-black text-sm transition-all shadow-md active:scale-95 ${
+                          isIdentifying 
+                          ? "bg-indigo-50 text-indigo-400 cursor-wait animate-pulse border border-indigo-100" 
+                          : needsIdentification 
+                            ? "bg-indigo-600 text-white hover:bg-indigo-700 shadow-indigo-200" 
+                            : "bg-slate-100 text-slate-400 cursor-not-allowed shadow-none"
+                        }`}
+                      >
+                        {isIdentifying ? <Loader2 size={18} className="animate-spin" /> : <MapPinned size={18} />}
+                        <span>{isIdentifying ? "智能轮询中..." : needsIdentification ? "智能识别地理位置" : "节点已全部识别"}</span>
+                      </button>
+
+                      <button
+                        onClick={() => setShowGeoSettings(prev => !prev)}
+                        title="地理位置数据源"
+                        className={`flex items-center justify-center space-x-2 px-4 py-3.5 rounded-xl font-black text-xs transition-all border active:scale-95 ${
+                          showGeoSettings
+                          ? "bg-indigo-50 text-indigo-600 border-indigo-200"
+                          : "bg-white text-slate-400 border-slate-200 hover:text-indigo-600 hover:border-indigo-300"
+                        }`}
+                      >
+                        <Database size={16} />
+                        <span>{offlineDb ? "离线库" : "数据源"}</span>
+                      </button>
+
+                      <button
+                        onClick={handleLatencyTest}
+                        disabled={isTesting || exportEntries.length === 0}
+                        title="对当前筛选出的节点测试延迟"
+                        className={`flex items-center justify-center space-x-2 px-4 py-3.5 rounded-xl font-black text-xs transition-all border active:scale-95 disabled:cursor-not-allowed ${
+                          isTesting
+                          ? "bg-emerald-50 text-emerald-500 border-emerald-100 cursor-wait animate-pulse"
+                          : "bg-white text-slate-500 border-slate-200 hover:text-emerald-600 hover:border-emerald-300 disabled:opacity-50"
+                        }`}
+                      >
+                        {isTesting ? <Loader2 size={16} className="animate-spin" /> : <Gauge size={16} />}
+                        <span>{isTesting ? "测速中..." : "延迟测试"}</span>
+                      </button>
+
+                      <button
+                        onClick={() => setShowLatencySettings(prev => !prev)}
+                        title="延迟测试设置"
+                        className={`flex items-center justify-center px-3 py-3.5 rounded-xl transition-all border active:scale-95 ${
+                          showLatencySettings
+                          ? "bg-emerald-50 text-emerald-600 border-emerald-200"
+                          : "bg-white text-slate-400 border-slate-200 hover:text-emerald-600 hover:border-emerald-300"
+                        }`}
+                      >
+                        <Settings2 size={16} />
+                      </button>
+
+                      <div className="w-px bg-slate-200 my-2 mx-1" />
+
+                      <button
+                        onClick={handleUndo}
+                        disabled={history.past.length === 0}
+                        title="撤销 (Ctrl+Z)"
+                        className="flex items-center justify-center px-3 py-3.5 rounded-xl transition-all border bg-white text-slate-500 border-slate-200 hover:text-indigo-600 hover:border-indigo-300 active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-slate-500 disabled:hover:border-slate-200"
+                      >
+                        <Undo2 size={16} />
+                      </button>
+
+                      <button
+                        onClick={handleRedo}
+                        disabled={history.future.length === 0}
+                        title="重做 (Ctrl+Shift+Z)"
+                        className="flex items-center justify-center px-3 py-3.5 rounded-xl transition-all border bg-white text-slate-500 border-slate-200 hover:text-indigo-600 hover:border-indigo-300 active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-slate-500 disabled:hover:border-slate-200"
+                      >
+                        <Redo2 size={16} />
+                      </button>
+                    </div>
 
                     <div className="flex flex-wrap items-center justify-center lg:justify-end gap-5 px-4">
-                      {/* Region Filter Multi-select */}
+                      {/* Geo Filter Multi-select */}
                       <div className="flex flex-wrap items-center gap-2 max-w-md">
                         <div className="flex items-center space-x-2 bg-slate-100 px-3 py-1.5 rounded-lg border border-slate-200">
                            <Filter size={12} className="text-slate-400" />
-                           <span className="text-[10px] font-black text-slate-500 uppercase tracking-wider">地区筛选</span>
+                           <select
+                             value={filterField}
+                             onChange={(e) => setFilterField(e.target.value as GeoFilterField)}
+                             className="bg-transparent border-none p-0 text-[10px] font-black text-slate-500 uppercase tracking-wider outline-none cursor-pointer"
+                           >
+                             {GEO_FILTER_FIELDS.map(({ field, label }) => (
+                               <option key={field} value={field}>
+                                 {label}筛选{geoFilters[field].length > 0 ? ` (${geoFilters[field].length})` : ''}
+                               </option>
+                             ))}
+                           </select>
                         </div>
                         
                         <button
-                          onClick={() => setSelectedRegions([])}
+                          onClick={() => setGeoFilters(prev => ({ ...prev, [filterField]: [] }))}
                           className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all border ${
-                            selectedRegions.length === 0 
+                            selectedValues.length === 0 
                             ? "bg-indigo-600 text-white border-indigo-600 shadow-sm" 
                             : "bg-white text-slate-500 border-slate-200 hover:border-indigo-300"
                           }`}
@@ -247,25 +740,36 @@ export default function App() {
                           全部
                         </button>
 
-                        {availableRegions.map(reg => (
+                        {availableValues.map(value => (
                           <button
-                            key={reg}
+                            key={value}
                             onClick={() => {
-                              setSelectedRegions(prev => 
-                                prev.includes(reg) 
-                                ? prev.filter(r => r !== reg) 
-                                : [...prev, reg]
-                              );
+                              setGeoFilters(prev => ({
+                                ...prev,
+                                [filterField]: prev[filterField].includes(value)
+                                  ? prev[filterField].filter(v => v !== value)
+                                  : [...prev[filterField], value]
+                              }));
                             }}
-                            className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all border ${
-                              selectedRegions.includes(reg) 
+                            title={value}
+                            className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all border max-w-[10rem] truncate ${
+                              selectedValues.includes(value) 
                               ? "bg-indigo-600 text-white border-indigo-600 shadow-sm" 
                               : "bg-white text-slate-500 border-slate-200 hover:border-indigo-300"
                             }`}
                           >
-                            {reg}
+                            {value}
                           </button>
                         ))}
+
+                        {activeFilterCount > 1 && (
+                          <button
+                            onClick={() => setGeoFilters(EMPTY_GEO_FILTERS)}
+                            className="px-2 py-1.5 rounded-lg text-[10px] font-black text-slate-400 hover:text-red-500 transition-all"
+                          >
+                            清除 {activeFilterCount} 项筛选
+                          </button>
+                        )}
                       </div>
 
                       <div className="h-4 w-px bg-slate-200 hidden sm:block" />
@@ -288,10 +792,83 @@ export default function App() {
                       </label>
                     </div>
                 </div>
+
+                <div className="mt-2 bg-white/95 backdrop-blur-md p-2 rounded-[1.25rem] border border-slate-200 shadow-lg shadow-slate-200/30">
+                  <QueryBar
+                    value={query}
+                    onChange={setQuery}
+                    errors={parsedQuery.errors}
+                    matchCount={displayEntries.length}
+                  />
+                </div>
             </div>
 
+            {identifyProgress && (
+              <JobProgressBar
+                title="地区识别"
+                progress={identifyProgress}
+                onPause={() => identifyJobRef.current?.pause()}
+                onResume={() => identifyJobRef.current?.resume()}
+                onCancel={() => identifyJobRef.current?.cancel()}
+                onDismiss={() => setIdentifyProgress(null)}
+              />
+            )}
+
+            {latencyProgress && (
+              <JobProgressBar
+                title="延迟测试"
+                progress={latencyProgress}
+                onPause={() => latencyJobRef.current?.pause()}
+                onResume={() => latencyJobRef.current?.resume()}
+                onCancel={() => latencyJobRef.current?.cancel()}
+                onDismiss={() => setLatencyProgress(null)}
+              />
+            )}
+
+            {resolveProgress && (
+              <JobProgressBar
+                title="域名解析"
+                progress={resolveProgress}
+                onPause={() => resolveJobRef.current?.pause()}
+                onResume={() => resolveJobRef.current?.resume()}
+                onCancel={() => resolveJobRef.current?.cancel()}
+                onDismiss={() => setResolveProgress(null)}
+              />
+            )}
+
+            {showLatencySettings && (
+              <LatencySettingsPanel settings={latencySettings} onSettingsChange={setLatencySettings} />
+            )}
+
+            {showGeoSettings && (
+              <GeoSettingsPanel
+                settings={geoSettings}
+                onSettingsChange={setGeoSettings}
+                offlineDb={offlineDb}
+                onOfflineDbChange={setOfflineDb}
+              />
+            )}
+
+            {showGeoSettings && (
+              <DnsSettingsPanel settings={dnsSettings} onSettingsChange={setDnsSettings} />
+            )}
+
             {/* List */}
-            <IpList entries={displayEntries} setEntries={setEntries} />
+            <IpList
+              entries={displayEntries}
+              allEntries={entries}
+              setEntries={setEntries}
+              templates={templates}
+              workspaces={workspaces.filter(w => w.id !== activeWorkspaceId).map(w => ({ id: w.id, name: w.name }))}
+              onTransfer={handleTransferEntries}
+              onReidentify={handleReidentify}
+              isIdentifying={isIdentifying}
+              onResolveDomains={handleResolveDomains}
+              isResolving={isResolving}
+              sort={sort}
+              onSortChange={setSort}
+              onApplySort={handleApplySort}
+            />
 
             <div className="flex justify-center pt-8 pb-16 relative z-[999]">
                <button
@@ -315,6 +892,13 @@ export default function App() {
         )}
       </div>
       
+      {notice && history.past.length > 0 && (
+        <UndoToast message={notice} onUndo={handleUndo} onDismiss={dismissNotice} />
+      )}
+      {message && !(notice && history.past.length > 0) && (
+        <UndoToast message={message} onDismiss={dismissMessage} />
+      )}
+
       <footer className="mt-12 mb-10 text-center space-y-2 opacity-50">
         <p className="text-slate-400 font-black text-[10px] tracking-[0.4em] uppercase">Security First · Local Process Only</p>
       </footer>
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { X, Power, PowerOff, Trash2, MapPin, Hash, ArrowUpToLine, ArrowDownToLine, RotateCw, Copy, ClipboardCheck, Check, FolderInput, Network } from 'lucide-react';
+import { IpEntry, ExportTemplate } from '../types';
+import { formatEntries } from '../utils/formatter';
+import { validatePort, isValidHostname } from '../utils/validate';
+import { cn } from '../utils/cn';
+
+interface BulkActionBarProps {
+  selected: IpEntry[];
+  selectableCount: number;
+  templates: ExportTemplate[];
+  onSelectAll: () => void;
+  onClear: () => void;
+  onSetActive: (active: boolean) => void;
+  onDelete: () => void;
+  onSetRegion: (region: string) => void;
+  onSetPort: (port: string) => void;
+  onMove: (position: 'top' | 'bottom') => void;
+  workspaces?: { id: string; name: string }[];
+  onTransfer?: (workspaceId: string, mode: 'move' | 'copy') => void;
+  onReidentify?: () => void;
+  isIdentifying?: boolean;
+  onResolveDomains?: () => void;
+  isResolving?: boolean;
+}
+
+type EditField = 'region' | 'port';
+
+const ACTION_CLASS = 'flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-[11px] font-black transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selected, selectableCount, templates, onSelectAll, onClear, onSetActive, onDelete, onSetRegion, onSetPort, onMove, workspaces = [], onTransfer, onReidentify, isIdentifying,
+  onResolveDomains, isResolving
+}) => {
+  const [editing, setEditing] = useState<EditField | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [templateId, setTemplateId] = useState(templates[0]?.id ?? '');
+  const [copied, setCopied] = useState(false);
+  const [transferTarget, setTransferTarget] = useState('');
+
+  const template = templates.find(t => t.id === templateId) ?? templates[0];
+  const domainCount = selected.filter(e => isValidHostname(e.ip)).length;
+  const canApplyEdit = editing === 'port' ? !validatePort(editValue) : editValue.trim() !== '';
+
+  const startEdit = (field: EditField) => {
+    setEditing(prev => (prev === field ? null : field));
+    setEditValue('');
+  };
+
+  const applyEdit = () => {
+    if (!canApplyEdit) return;
+    if (editing === 'region') onSetRegion(editValue.trim().toUpperCase());
+    else if (editing === 'port') onSetPort(editValue.trim());
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (!isConfirmingDelete) {
+      setIsConfirmingDelete(true);
+      setTimeout(() => setIsConfirmingDelete(false), 3000);
+      return;
+    }
+    setIsConfirmingDelete(false);
+    onDelete();
+  };
+
+  const handleCopy = async () => {
+    if (!template) return;
+    try {
+      await navigator.clipboard.writeText(formatEntries(selected, template));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy', err);
+    }
+  };
+
+  return (
+    <div className="px-6 py-3 bg-slate-900 rounded-2xl shadow-xl shadow-slate-300/40 space-y-2 animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex flex-wrap items-center gap-2 text-white">
+        <span className="text-xs font-black">已选择 {selected.length} 项</span>
+        {selected.length < selectableCount && (
+          <button onClick={onSelectAll} className="text-[11px] font-bold text-indigo-300 hover:text-indigo-200 underline-offset-2 hover:underline">
+            选择全部筛选结果 ({selectableCount})
+          </button>
+        )}
+        <span className="w-px h-4 mx-1 bg-white/10" />
+
+        <button onClick={() => onSetActive(true)} className={cn(ACTION_CLASS, "hover:bg-white/10")}>
+          <Power size={12} /> <span>启用</span>
+        </button>
+        <button onClick={() => onSetActive(false)} className={cn(ACTION_CLASS, "hover:bg-white/10")}>
+          <PowerOff size={12} /> <span>停用</span>
+        </button>
+        <button onClick={() => startEdit('region')} className={cn(ACTION_CLASS, editing === 'region' ? "bg-white/15" : "hover:bg-white/10")}>
+          <MapPin size={12} /> <span>设置地区</span>
+        </button>
+        <button onClick={() => startEdit('port')} className={cn(ACTION_CLASS, editing === 'port' ? "bg-white/15" : "hover:bg-white/10")}>
+          <Hash size={12} /> <span>修改端口</span>
+        </button>
+        <button onClick={() => onMove('top')} className={cn(ACTION_CLASS, "hover:bg-white/10")}>
+          <ArrowUpToLine size={12} /> <span>置顶</span>
+        </button>
+        <button onClick={() => onMove('bottom')} className={cn(ACTION_CLASS, "hover:bg-white/10")}>
+          <ArrowDownToLine size={12} /> <span>置底</span>
+        </button>
+        {onReidentify && (
+          <button onClick={onReidentify} disabled={isIdentifying} className={cn(ACTION_CLASS, "hover:bg-white/10")}>
+            <RotateCw size={12} /> <span>重新识别</span>
+          </button>
+        )}
+        {onResolveDomains && domainCount > 0 && (
+          <button onClick={onResolveDomains} disabled={isResolving} className={cn(ACTION_CLASS, "hover:bg-white/10")}>
+            <Network size={12} /> <span>解析域名 ({domainCount})</span>
+          </button>
+        )}
+
+        {onTransfer && workspaces.length > 0 && (
+          <div className="flex items-center rounded-lg bg-white/10">
+            <FolderInput size={12} className="ml-3 text-slate-400" />
+            <select
+              value={transferTarget}
+              onChange={e => setTransferTarget(e.target.value)}
+              className="bg-transparent border-none pl-2 pr-1 py-1.5 text-[11px] font-bold text-white outline-none cursor-pointer max-w-[9rem]"
+            >
+              <option value="" className="text-slate-900">目标列表…</option>
+              {workspaces.map(w => <option key={w.id} value={w.id} className="text-slate-900">{w.name}</option>)}
+            </select>
+            <button onClick={() => onTransfer(transferTarget, 'move')} disabled={!transferTarget} className={cn(ACTION_CLASS, "hover:bg-white/10")}>
+              移动
+            </button>
+            <button onClick={() => onTransfer(transferTarget, 'copy')} disabled={!transferTarget} className={cn(ACTION_CLASS, "hover:bg-white/10")}>
+              复制
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-center rounded-lg bg-white/10">
+          <select
+            value={template?.id ?? ''}
+            onChange={e => setTemplateId(e.target.value)}
+            className="bg-transparent border-none pl-3 pr-1 py-1.5 text-[11px] font-bold text-white outline-none cursor-pointer"
+          >
+            {templates.map(t => <option key={t.id} value={t.id} className="text-slate-900">{t.name}</option>)}
+          </select>
+          <button onClick={handleCopy} disabled={!template} className={cn(ACTION_CLASS, "hover:bg-white/10")}>
+            {copied ? <ClipboardCheck size={12} className="text-emerald-400" /> : <Copy size={12} />}
+            <span>{copied ? '已复制' : '复制所选'}</span>
+          </button>
+        </div>
+
+        <button
+          onClick={handleDelete}
+          className={cn(ACTION_CLASS, isConfirmingDelete ? "bg-red-500 animate-pulse" : "text-red-300 hover:bg-red-500/20")}
+        >
+          <Trash2 size={12} /> <span>{isConfirmingDelete ? `确认删除 ${selected.length} 项` : '删除'}</span>
+        </button>
+
+        <button onClick={onClear} title="取消选择" className="ml-auto p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-all">
+          <X size={14} />
+        </button>
+      </div>
+
+      {editing && (
+        <div className="flex items-center gap-2">
+          <input
+            autoFocus
+            value={editValue}
+            onChange={e => setEditValue(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && applyEdit()}
+            placeholder={editing === 'region' ? '地区代码，例如 HK' : '端口 1-65535'}
+            className="w-48 px-3 py-1.5 rounded-lg bg-white/10 border border-white/10 text-xs font-mono text-white outline-none placeholder:text-slate-500"
+          />
+          <button
+            onClick={applyEdit}
+            disabled={!canApplyEdit}
+            className={cn(ACTION_CLASS, "bg-indigo-500 text-white hover:bg-indigo-400")}
+          >
+            <Check size={12} /> <span>应用到 {selected.length} 项</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
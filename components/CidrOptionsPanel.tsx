@@ -0,0 +1,72 @@
+import React from 'react';
+import { Network } from 'lucide-react';
+import { CidrImportMode, CidrImportOptions } from '../types';
+import { CIDR_EXPAND_LIMIT, CIDR_MODE_LABELS, CIDR_SAMPLE_LIMIT } from '../utils/cidr';
+import { validatePort } from '../utils/validate';
+import { cn } from '../utils/cn';
+
+interface CidrOptionsPanelProps {
+  options: CidrImportOptions;
+  onOptionsChange: (options: CidrImportOptions) => void;
+}
+
+const NUMBER_INPUT_CLASS = 'w-20 px-2 py-1.5 bg-white border rounded-lg font-mono text-xs text-slate-700 outline-none';
+
+export const CidrOptionsPanel: React.FC<CidrOptionsPanelProps> = ({ options, onOptionsChange }) => {
+  const update = (patch: Partial<CidrImportOptions>) => onOptionsChange({ ...options, ...patch });
+  const portError = validatePort(options.defaultPort);
+
+  return (
+    <div className="p-4 rounded-2xl bg-sky-50/60 border border-sky-100 flex flex-wrap items-center gap-4 animate-in fade-in">
+      <div className="flex items-center space-x-2 text-sky-600">
+        <Network size={14} />
+        <span className="text-[10px] font-black uppercase tracking-widest">检测到 CIDR 网段</span>
+      </div>
+
+      <div className="flex gap-2">
+        {(Object.keys(CIDR_MODE_LABELS) as CidrImportMode[]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => update({ mode })}
+            className={cn(
+              "px-3 py-1.5 rounded-lg text-[11px] font-black transition-all border",
+              options.mode === mode
+                ? "bg-indigo-600 text-white border-indigo-600 shadow-sm"
+                : "bg-white text-slate-500 border-slate-200 hover:border-indigo-300"
+            )}
+          >
+            {CIDR_MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+        {options.mode === 'sample' ? (
+          <label className="flex items-center space-x-2">
+            <span>每个网段抽取</span>
+            <input
+              type="number"
+              min={1}
+              max={CIDR_SAMPLE_LIMIT}
+              value={options.sampleSize}
+              onChange={e => update({ sampleSize: Math.min(CIDR_SAMPLE_LIMIT, Math.max(1, Number(e.target.value) || 1)) })}
+              className={cn(NUMBER_INPUT_CLASS, "border-slate-200")}
+            />
+            <span>个</span>
+          </label>
+        ) : (
+          <span className="normal-case tracking-normal font-medium">单个网段超过 {CIDR_EXPAND_LIMIT} 个地址时不会展开</span>
+        )}
+        <label className="flex items-center space-x-2">
+          <span>缺省端口</span>
+          <input
+            value={options.defaultPort}
+            onChange={e => update({ defaultPort: e.target.value.trim() })}
+            title={portError ?? undefined}
+            className={cn(NUMBER_INPUT_CLASS, portError ? "border-red-300" : "border-slate-200")}
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
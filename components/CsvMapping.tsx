@@ -0,0 +1,122 @@
+import React, { useState, useMemo } from 'react';
+import { FileSpreadsheet, X, Check } from 'lucide-react';
+import { CsvColumnMapping, guessCsvMapping } from '../utils/file';
+import { cn } from '../utils/cn';
+
+const PREVIEW_ROWS = 5;
+
+interface CsvMappingProps {
+  fileName: string;
+  rows: string[][];
+  onConfirm: (mapping: CsvColumnMapping) => void;
+  onCancel: () => void;
+}
+
+export const CsvMapping: React.FC<CsvMappingProps> = ({ fileName, rows, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessCsvMapping(rows));
+
+  const columnCount = useMemo(() => rows.reduce((max, r) => Math.max(max, r.length), 0), [rows]);
+  const columnNames = useMemo(
+    () => Array.from({ length: columnCount }, (_, i) =>
+      mapping.hasHeader && rows[0]?.[i] ? rows[0][i] : `第 ${i + 1} 列`),
+    [columnCount, mapping.hasHeader, rows]
+  );
+  const previewRows = (mapping.hasHeader ? rows.slice(1) : rows).slice(0, PREVIEW_ROWS);
+  const bodyCount = mapping.hasHeader ? rows.length - 1 : rows.length;
+
+  const renderSelect = (field: 'ip' | 'port' | 'region', label: string, optionalLabel?: string) => (
+    <div className="space-y-2">
+      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1 block">{label}</label>
+      <select
+        value={mapping[field]}
+        onChange={e => setMapping(prev => ({ ...prev, [field]: Number(e.target.value) }))}
+        className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl text-sm text-slate-700 outline-none"
+      >
+        {optionalLabel && <option value={-1}>{optionalLabel}</option>}
+        {columnNames.map((name, i) => <option key={i} value={i}>{name}</option>)}
+      </select>
+    </div>
+  );
+
+  const columnRole = (index: number) =>
+    index === mapping.ip ? 'IP' : index === mapping.port ? '端口' : index === mapping.region ? '地区' : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2.5 bg-indigo-50 rounded-2xl text-indigo-500 border border-indigo-100/50">
+            <FileSpreadsheet size={16} />
+          </div>
+          <div>
+            <h4 className="text-xs font-black text-slate-700 uppercase tracking-widest">CSV 列映射</h4>
+            <p className="text-[11px] text-slate-400 font-medium">{fileName} · {bodyCount} 行数据</p>
+          </div>
+        </div>
+        <label className="flex items-center space-x-2 text-xs text-slate-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={mapping.hasHeader}
+            onChange={e => setMapping(prev => ({ ...prev, hasHeader: e.target.checked }))}
+            className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+          />
+          <span className="font-bold select-none">首行为表头</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {renderSelect('ip', 'IP 列')}
+        {renderSelect('port', '端口列', '无端口列')}
+        {mapping.port < 0 ? (
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1 block">默认端口</label>
+            <input
+              value={mapping.defaultPort}
+              onChange={e => setMapping(prev => ({ ...prev, defaultPort: e.target.value }))}
+              className="w-full px-4 py-2.5 bg-white border border-slate-200 rounded-xl font-mono text-sm text-slate-700 outline-none"
+            />
+          </div>
+        ) : <div className="hidden md:block" />}
+        {renderSelect('region', '地区列', '无地区列')}
+      </div>
+
+      <div className="overflow-x-auto rounded-2xl border border-slate-200">
+        <table className="min-w-full text-xs font-mono">
+          <thead className="bg-slate-50">
+            <tr>
+              {columnNames.map((name, i) => (
+                <th key={i} className={cn("px-3 py-2 text-left font-black whitespace-nowrap", columnRole(i) ? "text-indigo-600" : "text-slate-400")}>
+                  {name}{columnRole(i) ? ` → ${columnRole(i)}` : ''}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {previewRows.map((row, r) => (
+              <tr key={r} className="border-t border-slate-100">
+                {columnNames.map((_, i) => (
+                  <td key={i} className={cn("px-3 py-1.5 whitespace-nowrap", columnRole(i) ? "text-slate-700" : "text-slate-300")}>{row[i] ?? ''}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="flex items-center space-x-2 px-6 py-3 rounded-2xl text-xs font-black text-slate-500 bg-slate-100 hover:bg-slate-200 transition-all active:scale-95"
+        >
+          <X size={14} /> <span>取消</span>
+        </button>
+        <button
+          onClick={() => onConfirm(mapping)}
+          className="flex items-center space-x-2 px-8 py-3 rounded-2xl text-xs font-black bg-indigo-600 text-white hover:bg-indigo-700 shadow-xl shadow-indigo-200 transition-all active:scale-95"
+        >
+          <Check size={14} /> <span>按映射导入</span>
+        </button>
+      </div>
+    </div>
+  );
+};
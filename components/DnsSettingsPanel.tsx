@@ -0,0 +1,130 @@
+import React from 'react';
+import { Network, AlertCircle } from 'lucide-react';
+import { DnsSettings, DohFormat } from '../types';
+import { DOH_FORMAT_LABELS, DOH_PRESETS, validateDohEndpoint } from '../utils/dns';
+import { cn } from '../utils/cn';
+
+interface DnsSettingsPanelProps {
+  settings: DnsSettings;
+  onSettingsChange: (settings: DnsSettings) => void;
+}
+
+const NUMBER_INPUT_CLASS = 'w-20 px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-mono text-xs text-slate-700 outline-none';
+
+export const DnsSettingsPanel: React.FC<DnsSettingsPanelProps> = ({ settings, onSettingsChange }) => {
+  const update = (patch: Partial<DnsSettings>) => onSettingsChange({ ...settings, ...patch });
+  const endpointError = validateDohEndpoint(settings.endpoint);
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-xl shadow-slate-200/40 p-6 space-y-5 animate-in fade-in duration-300">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-sky-50 rounded-xl text-sky-500 border border-sky-100/50">
+          <Network size={16} />
+        </div>
+        <div>
+          <h4 className="text-xs font-black text-slate-700 uppercase tracking-widest">域名解析 (DoH)</h4>
+          <p className="text-[11px] text-slate-400 font-medium">域名条目通过 DNS-over-HTTPS 解析为 IP，识别地理位置时同样先解析再查询</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-4">
+        <label className="space-y-2 block">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">DoH 地址</span>
+          <input
+            value={settings.endpoint}
+            onChange={e => update({ endpoint: e.target.value.trim() })}
+            placeholder="https://cloudflare-dns.com/dns-query"
+            className={cn(
+              "w-full px-3 py-1.5 bg-white border rounded-lg font-mono text-xs text-slate-700 outline-none",
+              endpointError ? "border-red-300" : "border-slate-200"
+            )}
+          />
+        </label>
+        <div className="space-y-2">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">请求格式</span>
+          <div className="flex gap-2">
+            {(Object.keys(DOH_FORMAT_LABELS) as DohFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => update({ format })}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-[11px] font-black transition-all border",
+                  settings.format === format
+                    ? "bg-indigo-600 text-white border-indigo-600 shadow-sm"
+                    : "bg-white text-slate-500 border-slate-200 hover:border-indigo-300"
+                )}
+              >
+                {DOH_FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      {endpointError && (
+        <p className="flex items-center text-[11px] font-bold text-red-500">
+          <AlertCircle size={12} className="mr-1.5" /> {endpointError}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest mr-1">预设</span>
+        {DOH_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => update({ endpoint: preset.endpoint, format: preset.format })}
+            className={cn(
+              "px-2.5 py-1.5 rounded-lg text-[11px] font-bold border transition-all",
+              settings.endpoint === preset.endpoint && settings.format === preset.format
+                ? "bg-indigo-50 border-indigo-200 text-indigo-600"
+                : "bg-white border-slate-200 text-slate-500 hover:border-indigo-300 hover:text-indigo-600"
+            )}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+        <label className="flex items-center space-x-2">
+          <span>超时</span>
+          <input
+            type="number"
+            min={500}
+            step={500}
+            value={settings.timeoutMs}
+            onChange={e => update({ timeoutMs: Math.max(500, Number(e.target.value) || 0) })}
+            className={NUMBER_INPUT_CLASS}
+          />
+          <span>ms</span>
+        </label>
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.includeIpv6}
+            onChange={e => update({ includeIpv6: e.target.checked })}
+            className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+          />
+          <span>同时查询 AAAA (IPv6)</span>
+        </label>
+      </div>
+
+      <div className="p-4 rounded-2xl bg-slate-50 border border-slate-100">
+        <label className="flex items-center space-x-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.replaceDomain}
+            onChange={e => update({ replaceDomain: e.target.checked })}
+            className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+          />
+          <span className="text-xs font-black text-slate-600">解析后用 IP 条目替换原域名条目</span>
+        </label>
+        <p className="text-[11px] mt-1 ml-7 text-slate-400 font-medium">新条目沿用原条目的端口、地区与链接参数；不勾选时保留域名条目并在其后追加</p>
+      </div>
+
+      <div className="p-3 rounded-xl text-[11px] font-medium flex items-start bg-amber-50 text-amber-600 border border-amber-100">
+        <AlertCircle size={14} className="mr-2 mt-0.5 shrink-0" />
+        DoH 服务需允许跨域请求；本地调试可运行 npm run doh-stub 启动替身服务（127.0.0.1:8053）
+      </div>
+    </div>
+  );
+};
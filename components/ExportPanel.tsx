@@ -0,0 +1,323 @@
+import React, { useState, useMemo } from 'react';
+import { ClipboardCheck, Settings2, Plus, Save, Trash2, RotateCcw, X, Link2, Download } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { IpEntry, ExportTemplate } from '../types';
+import { formatEntries, DEFAULT_TEMPLATES, SEPARATOR_OPTIONS, TEMPLATE_TOKENS } from '../utils/formatter';
+import { buildShareLinks, buildSubscription, buildClashYaml, canBuildLink, DEFAULT_REMARK_PATTERN } from '../utils/links';
+import { downloadText, entriesToTxt, entriesToCsv, serializeEntriesJson } from '../utils/file';
+import { cn } from '../utils/cn';
+
+const PREVIEW_LIMIT = 5;
+
+interface ExportPanelProps {
+  entries: IpEntry[];
+  templates: ExportTemplate[];
+  onTemplatesChange: (templates: ExportTemplate[]) => void;
+}
+
+type ConfigFormat = 'links' | 'subscription' | 'clash';
+
+const CONFIG_FORMATS: { id: ConfigFormat; name: string; description: string }[] = [
+  { id: 'links', name: '复制分享链接', description: 'trojan / vless / vmess / ss' },
+  { id: 'subscription', name: '复制 Base64 订阅', description: '通用订阅格式' },
+  { id: 'clash', name: '复制 Clash 配置', description: 'proxies: YAML' }
+];
+
+type FileFormat = 'txt' | 'csv' | 'json';
+
+const FILE_FORMATS: { id: FileFormat; label: string; mimeType: string; serialize: (entries: IpEntry[]) => string }[] = [
+  { id: 'txt', label: 'TXT', mimeType: 'text/plain', serialize: entriesToTxt },
+  { id: 'csv', label: 'CSV', mimeType: 'text/csv', serialize: entriesToCsv },
+  { id: 'json', label: 'JSON', mimeType: 'application/json', serialize: serializeEntriesJson }
+];
+
+const createDraft = (): ExportTemplate => ({
+  id: uuidv4(),
+  name: '新模板',
+  description: '自定义格式',
+  pattern: '{host}:{port}#{region}-{index}',
+  separator: '\n'
+});
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ entries, templates, onTemplatesChange }) => {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isManaging, setIsManaging] = useState(false);
+  const [draft, setDraft] = useState<ExportTemplate>(() => templates[0] ?? createDraft());
+  const [remarkPattern, setRemarkPattern] = useState(DEFAULT_REMARK_PATTERN);
+
+  const linkableCount = useMemo(() => entries.filter(canBuildLink).length, [entries]);
+
+  const isNewDraft = !templates.some(t => t.id === draft.id);
+
+  const preview = useMemo(
+    () => formatEntries(entries.slice(0, PREVIEW_LIMIT), draft),
+    [entries, draft]
+  );
+
+  const copyText = async (id: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy', err);
+    }
+  };
+
+  const copyWithTemplate = (template: ExportTemplate) => {
+    if (entries.length === 0) return;
+    copyText(template.id, formatEntries(entries, template));
+  };
+
+  const copyConfig = (format: ConfigFormat) => {
+    if (linkableCount === 0) return;
+    const text = format === 'links'
+      ? buildShareLinks(entries, remarkPattern).join('\n')
+      : format === 'subscription'
+        ? buildSubscription(entries, remarkPattern)
+        : buildClashYaml(entries, remarkPattern);
+    copyText(format, text);
+  };
+
+  const downloadFile = (format: typeof FILE_FORMATS[number]) => {
+    if (entries.length === 0) return;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadText(`ip-list-${date}.${format.id}`, format.serialize(entries), format.mimeType);
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim() || !draft.pattern) return;
+    const saved = { ...draft, name: draft.name.trim() };
+    onTemplatesChange(isNewDraft ? [...templates, saved] : templates.map(t => t.id === saved.id ? saved : t));
+    setDraft(saved);
+  };
+
+  const handleDelete = () => {
+    const rest = templates.filter(t => t.id !== draft.id);
+    onTemplatesChange(rest);
+    setDraft(rest[0] ?? createDraft());
+  };
+
+  const handleReset = () => {
+    onTemplatesChange(DEFAULT_TEMPLATES);
+    setDraft(DEFAULT_TEMPLATES[0]);
+  };
+
+  const insertToken = (token: string) => {
+    setDraft(prev => ({ ...prev, pattern: prev.pattern + token }));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Copy Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {templates.map(template => (
+          <button
+            key={template.id}
+            onClick={() => copyWithTemplate(template)}
+            className="group flex flex-col items-center justify-center p-6 bg-white border border-slate-200 hover:border-indigo-400 rounded-2xl transition-all active:scale-[0.98] hover:shadow-xl hover:shadow-indigo-500/5"
+          >
+            <div className="flex items-center space-x-2.5 mb-1">
+              {copiedId === template.id ? <ClipboardCheck className="text-emerald-500" size={20} /> : null}
+              <span className="font-black text-slate-800 group-hover:text-indigo-600 transition-colors uppercase tracking-wider text-sm">
+                {copiedId === template.id ? "复制成功" : template.name}
+              </span>
+            </div>
+            <span className="text-[10px] text-slate-400 font-bold uppercase tracking-[0.2em] opacity-60">
+              {template.description || template.pattern}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {/* Config Export */}
+      {linkableCount > 0 && (
+        <div className="bg-white/60 rounded-2xl border border-slate-200 p-4 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="flex items-center space-x-2 text-slate-500 shrink-0">
+              <Link2 size={14} />
+              <span className="text-[10px] font-black uppercase tracking-wider">节点配置导出 · {linkableCount} 个可还原节点</span>
+            </div>
+            <div className="flex items-center gap-2 flex-1">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest whitespace-nowrap">备注格式</label>
+              <input
+                value={remarkPattern}
+                onChange={e => setRemarkPattern(e.target.value)}
+                placeholder={DEFAULT_REMARK_PATTERN}
+                className="w-full px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-mono text-xs text-slate-700 outline-none"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {CONFIG_FORMATS.map(format => (
+              <button
+                key={format.id}
+                onClick={() => copyConfig(format.id)}
+                className="group flex flex-col items-center justify-center p-4 bg-white border border-slate-200 hover:border-violet-400 rounded-xl transition-all active:scale-[0.98] hover:shadow-lg hover:shadow-violet-500/5"
+              >
+                <div className="flex items-center space-x-2 mb-1">
+                  {copiedId === format.id ? <ClipboardCheck className="text-emerald-500" size={16} /> : null}
+                  <span className="font-black text-slate-800 group-hover:text-violet-600 transition-colors uppercase tracking-wider text-xs">
+                    {copiedId === format.id ? "复制成功" : format.name}
+                  </span>
+                </div>
+                <span className="text-[10px] text-slate-400 font-bold tracking-wider opacity-60">{format.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5">
+          <span className="flex items-center space-x-2 px-2 text-[10px] font-black uppercase tracking-wider text-slate-400">
+            <Download size={12} /> <span>下载文件</span>
+          </span>
+          {FILE_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => downloadFile(format)}
+              className="px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider text-slate-500 bg-white border border-slate-200 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => {
+            if (!isManaging) setDraft(templates[0] ?? createDraft());
+            setIsManaging(!isManaging);
+          }}
+          className="flex items-center space-x-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-wider text-slate-400 hover:text-indigo-600 hover:bg-white transition-all"
+        >
+          {isManaging ? <X size={12} /> : <Settings2 size={12} />}
+          <span>{isManaging ? "收起模板管理" : "管理导出模板"}</span>
+        </button>
+      </div>
+
+      {/* Template Manager */}
+      {isManaging && (
+        <div className="bg-white rounded-[2rem] border border-slate-200 shadow-xl shadow-slate-200/40 p-6 grid grid-cols-1 md:grid-cols-[200px_1fr] gap-6 animate-in fade-in duration-300">
+          <div className="space-y-2">
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => setDraft(template)}
+                className={cn(
+                  "w-full text-left px-4 py-2.5 rounded-xl text-xs font-bold transition-all border truncate",
+                  draft.id === template.id
+                    ? "bg-indigo-600 text-white border-indigo-600 shadow-sm"
+                    : "bg-white text-slate-500 border-slate-200 hover:border-indigo-300"
+                )}
+              >
+                {template.name}
+              </button>
+            ))}
+            <button
+              onClick={() => setDraft(createDraft())}
+              className="w-full flex items-center justify-center space-x-2 px-4 py-2.5 rounded-xl text-xs font-black text-indigo-500 border border-dashed border-indigo-200 hover:bg-indigo-50 transition-all"
+            >
+              <Plus size={12} /> <span>新建模板</span>
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1 block">模板名称</label>
+                <input
+                  value={draft.name}
+                  onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  className="w-full px-4 py-2.5 bg-white/50 border border-slate-200 rounded-xl text-sm text-slate-700 outline-none"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1 block">描述</label>
+                <input
+                  value={draft.description || ''}
+                  onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                  className="w-full px-4 py-2.5 bg-white/50 border border-slate-200 rounded-xl text-sm text-slate-700 outline-none"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1 block">单条格式</label>
+              <input
+                value={draft.pattern}
+                onChange={e => setDraft(prev => ({ ...prev, pattern: e.target.value }))}
+                className="w-full px-4 py-2.5 bg-white/50 border border-slate-200 rounded-xl font-mono text-sm text-slate-700 outline-none"
+              />
+              <div className="flex flex-wrap gap-1.5">
+                {TEMPLATE_TOKENS.map(({ token, label }) => (
+                  <button
+                    key={token}
+                    title={label}
+                    onClick={() => insertToken(token)}
+                    className="px-2 py-1 rounded-lg bg-slate-100 text-[10px] font-mono font-bold text-slate-500 hover:bg-indigo-50 hover:text-indigo-600 transition-all"
+                  >
+                    {token}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1 block">分隔符</label>
+              <div className="flex flex-wrap gap-2">
+                {SEPARATOR_OPTIONS.map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => setDraft(prev => ({ ...prev, separator: option.value }))}
+                    className={cn(
+                      "px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all border",
+                      draft.separator === option.value
+                        ? "bg-indigo-600 text-white border-indigo-600 shadow-sm"
+                        : "bg-white text-slate-500 border-slate-200 hover:border-indigo-300"
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1 block">
+                预览（前 {PREVIEW_LIMIT} 条）
+              </label>
+              <pre className="w-full min-h-[60px] max-h-40 overflow-auto px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl font-mono text-xs text-slate-600 whitespace-pre-wrap break-all">
+                {preview || '当前筛选结果为空'}
+              </pre>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 pt-2">
+              <button
+                onClick={handleReset}
+                className="flex items-center space-x-2 px-4 py-2.5 rounded-xl text-xs font-black text-slate-400 hover:text-slate-600 transition-all"
+              >
+                <RotateCcw size={14} /> <span>恢复默认</span>
+              </button>
+              <div className="flex items-center gap-3">
+                {!isNewDraft && (
+                  <button
+                    onClick={handleDelete}
+                    className="flex items-center space-x-2 px-4 py-2.5 rounded-xl text-xs font-black text-red-500 hover:bg-red-50 transition-all"
+                  >
+                    <Trash2 size={14} /> <span>删除</span>
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  className="flex items-center space-x-2 px-6 py-2.5 rounded-xl text-xs font-black bg-slate-900 text-white hover:bg-black shadow-lg shadow-slate-200 transition-all active:scale-95"
+                >
+                  <Save size={14} /> <span>{isNewDraft ? "添加模板" : "保存修改"}</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronUp, ChevronDown, Plus, Trash2, RotateCcw, Server } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { GeoProvider } from '../types';
+import { getGeoProviderStats, subscribeGeoProviderStats, resetGeoProviderStats } from '../utils/geoProviders';
+import { cn } from '../utils/cn';
+
+interface GeoProviderListProps {
+  providers: GeoProvider[];
+  onChange: (providers: GeoProvider[]) => void;
+}
+
+const EMPTY_DRAFT = { name: '', url: '', countryPath: '' };
+
+export const GeoProviderList: React.FC<GeoProviderListProps> = ({ providers, onChange }) => {
+  const [, setStatsVersion] = useState(0);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [isAdding, setIsAdding] = useState(false);
+
+  useEffect(() => subscribeGeoProviderStats(() => setStatsVersion(v => v + 1)), []);
+
+  const update = (id: string, patch: Partial<GeoProvider>) => {
+    onChange(providers.map(p => (p.id === id ? { ...p, ...patch } : p)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= providers.length) return;
+    const next = [...providers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const canAdd = draft.name.trim() && draft.url.includes('{ip}') && draft.countryPath.trim();
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onChange([...providers, {
+      id: uuidv4(),
+      name: draft.name.trim(),
+      url: draft.url.trim(),
+      countryPath: draft.countryPath.trim(),
+      enabled: true,
+      timeoutMs: 3500,
+      rateLimit: 0
+    }]);
+    setDraft(EMPTY_DRAFT);
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Server size={12} className="text-slate-400" />
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">在线 API 源（按顺序尝试）</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={resetGeoProviderStats}
+            className="flex items-center space-x-1 px-2 py-1 rounded-lg text-[10px] font-black text-slate-400 hover:bg-slate-100 transition-all"
+          >
+            <RotateCcw size={10} /> <span>重置统计</span>
+          </button>
+          <button
+            onClick={() => setIsAdding(prev => !prev)}
+            className="flex items-center space-x-1 px-2 py-1 rounded-lg text-[10px] font-black text-indigo-500 hover:bg-indigo-50 transition-all"
+          >
+            <Plus size={10} /> <span>自定义源</span>
+          </button>
+        </div>
+      </div>
+
+      {isAdding && (
+        <div className="p-4 rounded-2xl bg-slate-50 border border-slate-100 space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <input
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              placeholder="名称"
+              className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs text-slate-700 outline-none"
+            />
+            <input
+              value={draft.url}
+              onChange={e => setDraft({ ...draft, url: e.target.value })}
+              placeholder="https://example.com/json/{ip}"
+              className="md:col-span-2 px-3 py-2 bg-white border border-slate-200 rounded-xl font-mono text-xs text-slate-700 outline-none"
+            />
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={draft.countryPath}
+              onChange={e => setDraft({ ...draft, countryPath: e.target.value })}
+              placeholder="国家代码 JSON 路径，例如 data.country_code"
+              className="flex-1 px-3 py-2 bg-white border border-slate-200 rounded-xl font-mono text-xs text-slate-700 outline-none"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!canAdd}
+              className="px-4 py-2 rounded-xl text-xs font-black bg-slate-900 text-white hover:bg-black transition-all disabled:opacity-40"
+            >
+              添加
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400 font-medium">URL 中必须包含 {'{ip}'} 占位符</p>
+        </div>
+      )}
+
+      <div className="rounded-2xl border border-slate-100 divide-y divide-slate-50">
+        {providers.map((provider, index) => {
+          const stats = getGeoProviderStats(provider.id);
+          const isBackedOff = stats.backoffUntil > Date.now();
+          return (
+            <div key={provider.id} className={cn("flex flex-col md:flex-row md:items-center gap-3 px-4 py-3", !provider.enabled && "opacity-50")}>
+              <div className="flex items-center gap-3 flex-1 min-w-0">
+                <div className="flex flex-col">
+                  <button onClick={() => move(index, -1)} disabled={index === 0} className="text-slate-300 hover:text-slate-600 disabled:opacity-30">
+                    <ChevronUp size={12} />
+                  </button>
+                  <button onClick={() => move(index, 1)} disabled={index === providers.length - 1} className="text-slate-300 hover:text-slate-600 disabled:opacity-30">
+                    <ChevronDown size={12} />
+                  </button>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={provider.enabled}
+                  onChange={e => update(provider.id, { enabled: e.target.checked })}
+                  className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+                />
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs font-black text-slate-700">{provider.name}</span>
+                    {isBackedOff && (
+                      <span className="px-1.5 py-0.5 rounded text-[9px] font-black bg-amber-50 text-amber-600 border border-amber-100">退避中</span>
+                    )}
+                  </div>
+                  <p className="text-[10px] text-slate-400 font-mono truncate" title={provider.url}>{provider.url} → {provider.countryPath}</p>
+                  <p className="text-[10px] font-bold">
+                    <span className="text-emerald-500">成功 {stats.success}</span>
+                    <span className="text-slate-300"> · </span>
+                    <span className="text-red-400">失败 {stats.failure}</span>
+                    <span className="text-slate-300"> · </span>
+                    <span className="text-amber-500">429 {stats.rateLimited}</span>
+                    {stats.lastError && <span className="text-slate-400 font-medium"> · 最近错误：{stats.lastError}</span>}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-[10px] font-black text-slate-400">
+                <label className="flex items-center space-x-1">
+                  <span>超时</span>
+                  <input
+                    type="number"
+                    min={500}
+                    step={500}
+                    value={provider.timeoutMs}
+                    onChange={e => update(provider.id, { timeoutMs: Math.max(500, Number(e.target.value) || 0) })}
+                    className="w-16 px-2 py-1 bg-white border border-slate-200 rounded-lg font-mono text-xs text-slate-700 outline-none"
+                  />
+                  <span>ms</span>
+                </label>
+                <label className="flex items-center space-x-1">
+                  <span>限速</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={provider.rateLimit}
+                    onChange={e => update(provider.id, { rateLimit: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-14 px-2 py-1 bg-white border border-slate-200 rounded-lg font-mono text-xs text-slate-700 outline-none"
+                  />
+                  <span>次/分</span>
+                </label>
+                {!provider.builtin && (
+                  <button
+                    onClick={() => onChange(providers.filter(p => p.id !== provider.id))}
+                    title="删除此源"
+                    className="p-1 text-slate-300 hover:text-red-500 transition-colors"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,266 @@
+import React, { useRef, useState, useMemo } from 'react';
+import { Database, Upload, Trash2, Globe, AlertCircle, History, X, Search } from 'lucide-react';
+import { GeoSettings } from '../types';
+import { OfflineDbInfo, importOfflineDatabase, clearOfflineDatabase } from '../utils/offlineGeo';
+import { listGeoCache, deleteCachedGeo, pruneGeoCache, clearGeoCache, isGeoCacheExpired } from '../utils/geoCache';
+import { GeoProviderList } from './GeoProviderList';
+import { MAX_CONCURRENCY } from '../utils/jobQueue';
+import { cn } from '../utils/cn';
+
+interface GeoSettingsPanelProps {
+  settings: GeoSettings;
+  onSettingsChange: (settings: GeoSettings) => void;
+  offlineDb: OfflineDbInfo | null;
+  onOfflineDbChange: (info: OfflineDbInfo | null) => void;
+}
+
+const CACHE_PREVIEW_LIMIT = 50;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export const GeoSettingsPanel: React.FC<GeoSettingsPanelProps> = ({ settings, onSettingsChange, offlineDb, onOfflineDbChange }) => {
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cacheSearch, setCacheSearch] = useState('');
+  const [cacheVersion, setCacheVersion] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // cacheVersion 仅用于在本面板操作缓存后触发重新读取
+  const cacheRecords = useMemo(() => listGeoCache(), [cacheVersion]);
+  const filteredCache = useMemo(() => {
+    const keyword = cacheSearch.trim().toUpperCase();
+    return keyword
+      ? cacheRecords.filter(r => r.ip.toUpperCase().includes(keyword) || r.country.includes(keyword) || r.source.toUpperCase().includes(keyword))
+      : cacheRecords;
+  }, [cacheRecords, cacheSearch]);
+  const expiredCount = cacheRecords.filter(r => isGeoCacheExpired(r, settings.cacheTtlDays)).length;
+
+  const handleDeleteCache = (ip: string) => {
+    deleteCachedGeo(ip);
+    setCacheVersion(v => v + 1);
+  };
+
+  const handlePruneCache = () => {
+    pruneGeoCache(settings.cacheTtlDays);
+    setCacheVersion(v => v + 1);
+  };
+
+  const handleClearCache = async () => {
+    await clearGeoCache();
+    setCacheVersion(v => v + 1);
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setIsImporting(true);
+    try {
+      onOfflineDbChange(await importOfflineDatabase(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '数据库导入失败');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleClear = async () => {
+    await clearOfflineDatabase();
+    onOfflineDbChange(null);
+  };
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-xl shadow-slate-200/40 p-6 space-y-5 animate-in fade-in duration-300">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".mmdb,.csv,.txt"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-50 rounded-xl text-indigo-500 border border-indigo-100/50">
+            <Database size={16} />
+          </div>
+          <div>
+            <h4 className="text-xs font-black text-slate-700 uppercase tracking-widest">离线地理位置库</h4>
+            <p className="text-[11px] text-slate-400 font-medium">
+              {offlineDb
+                ? `${offlineDb.name} · ${offlineDb.kind.toUpperCase()} · ${formatSize(offlineDb.size)} · 导入于 ${new Date(offlineDb.importedAt).toLocaleString()}`
+                : '支持 GeoLite2-Country.mmdb 或 CIDR,国家 / 起始IP,结束IP,国家 格式的 CSV'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {offlineDb && (
+            <button
+              onClick={handleClear}
+              className="flex items-center space-x-2 px-4 py-2.5 rounded-xl text-xs font-black text-red-500 hover:bg-red-50 transition-all"
+            >
+              <Trash2 size={14} /> <span>移除</span>
+            </button>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center space-x-2 px-5 py-2.5 rounded-xl text-xs font-black bg-slate-900 text-white hover:bg-black shadow-lg shadow-slate-200 transition-all active:scale-95 disabled:opacity-50"
+          >
+            <Upload size={14} /> <span>{isImporting ? "导入中..." : offlineDb ? "替换数据库" : "导入数据库"}</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-xl text-xs font-bold flex items-center bg-red-50 text-red-600 border border-red-100">
+          <AlertCircle size={14} className="mr-2" />
+          {error}
+        </div>
+      )}
+
+      <label className="flex items-start space-x-3 p-4 rounded-2xl bg-slate-50 border border-slate-100 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.onlineFallback}
+          onChange={e => onSettingsChange({ ...settings, onlineFallback: e.target.checked })}
+          className="mt-0.5 w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+        />
+        <div>
+          <div className="flex items-center space-x-2">
+            <Globe size={12} className="text-slate-400" />
+            <span className="text-xs font-black text-slate-600">离线库未命中时使用在线 API</span>
+          </div>
+          <p className={cn("text-[11px] mt-1 font-medium", settings.onlineFallback ? "text-amber-500" : "text-slate-400")}>
+            {settings.onlineFallback
+              ? '开启后未命中的 IP 会发送给第三方公共 API 查询'
+              : '已关闭：所有识别均在本地完成，未命中的 IP 将标记为 FAIL'}
+          </p>
+        </div>
+      </label>
+
+      <label className="flex items-center justify-between px-4 py-3 rounded-2xl bg-slate-50 border border-slate-100">
+        <div>
+          <span className="text-xs font-black text-slate-600">并发识别数</span>
+          <p className="text-[11px] text-slate-400 font-medium">同时查询的 IP 数量，过高容易触发在线 API 的频率限制</p>
+        </div>
+        <input
+          type="number"
+          min={1}
+          max={MAX_CONCURRENCY}
+          value={settings.concurrency}
+          onChange={e => onSettingsChange({ ...settings, concurrency: Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)) })}
+          className="w-16 px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-mono text-xs text-slate-700 outline-none"
+        />
+      </label>
+
+      {settings.onlineFallback && (
+        <GeoProviderList
+          providers={settings.providers}
+          onChange={providers => onSettingsChange({ ...settings, providers })}
+        />
+      )}
+
+      {/* Geo Cache */}
+      <div className="space-y-4 pt-2 border-t border-slate-100">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 pt-3">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-slate-50 rounded-xl text-slate-500 border border-slate-100">
+              <History size={16} />
+            </div>
+            <div>
+              <h4 className="text-xs font-black text-slate-700 uppercase tracking-widest">识别结果缓存</h4>
+              <p className="text-[11px] text-slate-400 font-medium">
+                共 {cacheRecords.length} 条{expiredCount > 0 ? `，其中 ${expiredCount} 条已过期` : ''}，命中缓存的 IP 不再请求在线 API
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center space-x-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              <span>有效期</span>
+              <input
+                type="number"
+                min={0}
+                value={settings.cacheTtlDays}
+                onChange={e => onSettingsChange({ ...settings, cacheTtlDays: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-16 px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-mono text-xs text-slate-700 outline-none"
+              />
+              <span>天</span>
+            </label>
+            <button
+              onClick={handlePruneCache}
+              disabled={expiredCount === 0}
+              className="px-3 py-2 rounded-xl text-xs font-black text-slate-500 hover:bg-slate-100 transition-all disabled:opacity-40"
+            >
+              清除过期
+            </button>
+            <button
+              onClick={handleClearCache}
+              disabled={cacheRecords.length === 0}
+              className="flex items-center space-x-1.5 px-3 py-2 rounded-xl text-xs font-black text-red-500 hover:bg-red-50 transition-all disabled:opacity-40"
+            >
+              <Trash2 size={12} /> <span>清空</span>
+            </button>
+          </div>
+        </div>
+
+        {cacheRecords.length > 0 && (
+          <>
+            <div className="relative">
+              <Search size={12} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-300" />
+              <input
+                value={cacheSearch}
+                onChange={e => setCacheSearch(e.target.value)}
+                placeholder="按 IP / 地区 / 来源筛选"
+                className="w-full pl-8 pr-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs text-slate-700 outline-none"
+              />
+            </div>
+            <div className="max-h-64 overflow-auto rounded-2xl border border-slate-100">
+              <table className="min-w-full text-xs">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left">
+                    <th className="px-4 py-2">IP</th>
+                    <th className="px-4 py-2">地区</th>
+                    <th className="px-4 py-2">来源</th>
+                    <th className="px-4 py-2">缓存时间</th>
+                    <th className="px-4 py-2 w-10"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredCache.slice(0, CACHE_PREVIEW_LIMIT).map(record => (
+                    <tr
+                      key={record.ip}
+                      className={cn("border-t border-slate-50", isGeoCacheExpired(record, settings.cacheTtlDays) && "opacity-40")}
+                    >
+                      <td className="px-4 py-1.5 font-mono text-slate-700">{record.ip}</td>
+                      <td className="px-4 py-1.5 font-bold text-slate-700">{record.country}</td>
+                      <td className="px-4 py-1.5 text-slate-400">{record.source}</td>
+                      <td className="px-4 py-1.5 text-slate-400 whitespace-nowrap">{new Date(record.cachedAt).toLocaleString()}</td>
+                      <td className="px-4 py-1.5 text-right">
+                        <button
+                          onClick={() => handleDeleteCache(record.ip)}
+                          title="删除此缓存"
+                          className="text-slate-300 hover:text-red-500 transition-colors"
+                        >
+                          <X size={12} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {filteredCache.length > CACHE_PREVIEW_LIMIT && (
+              <p className="text-[10px] text-slate-400 font-bold text-center">
+                仅显示前 {CACHE_PREVIEW_LIMIT} 条，共 {filteredCache.length} 条匹配
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import { ShieldAlert, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { ImportPolicy, ImportRule, ImportRuleKind } from '../types';
+import {
+  IMPORT_RULE_KIND_LABELS, IMPORT_RULE_PLACEHOLDERS, IMPORT_RULE_PRESETS, compileImportRule, createImportRule
+} from '../utils/importPolicy';
+import { cn } from '../utils/cn';
+
+interface ImportPolicyPanelProps {
+  policy: ImportPolicy;
+  onPolicyChange: (policy: ImportPolicy) => void;
+}
+
+const SELECT_CLASS = 'px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-[11px] font-bold text-slate-600 outline-none cursor-pointer';
+
+export const ImportPolicyPanel: React.FC<ImportPolicyPanelProps> = ({ policy, onPolicyChange }) => {
+  const updateRule = (id: string, patch: Partial<ImportRule>) =>
+    onPolicyChange({ rules: policy.rules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)) });
+
+  const removeRule = (id: string) => onPolicyChange({ rules: policy.rules.filter(rule => rule.id !== id) });
+
+  const addRule = (rule: Omit<ImportRule, 'id' | 'enabled'>) =>
+    onPolicyChange({ rules: [...policy.rules, createImportRule(rule)] });
+
+  return (
+    <div className="mb-8 p-6 rounded-3xl bg-slate-50/80 border border-slate-200 space-y-4 animate-in fade-in">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-white rounded-xl text-indigo-500 border border-slate-100 shadow-sm">
+          <ShieldAlert size={16} />
+        </div>
+        <div>
+          <h4 className="text-xs font-black text-slate-700 uppercase tracking-widest">导入策略</h4>
+          <p className="text-[11px] text-slate-400 font-medium">对智能解析、手动添加与文件导入统一生效；"禁止"命中即拒绝，"仅允许"未命中即拒绝，按顺序记录第一条拒绝的规则</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {policy.rules.length === 0 && (
+          <p className="text-[11px] text-slate-400 font-medium px-1">未配置规则，所有条目都会被导入</p>
+        )}
+        {policy.rules.map(rule => {
+          const compiled = compileImportRule(rule);
+          const error = typeof compiled === 'string' ? compiled : null;
+          return (
+            <div key={rule.id} className={cn("p-3 rounded-2xl bg-white border space-y-1.5", error ? "border-red-200" : "border-slate-100")}>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+                />
+                <select
+                  value={rule.action}
+                  onChange={e => updateRule(rule.id, { action: e.target.value as ImportRule['action'] })}
+                  className={SELECT_CLASS}
+                >
+                  <option value="deny">禁止</option>
+                  <option value="allow">仅允许</option>
+                </select>
+                <select
+                  value={rule.kind}
+                  onChange={e => updateRule(rule.id, { kind: e.target.value as ImportRuleKind })}
+                  className={SELECT_CLASS}
+                >
+                  {(Object.keys(IMPORT_RULE_KIND_LABELS) as ImportRuleKind[]).map(kind => (
+                    <option key={kind} value={kind}>{IMPORT_RULE_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+                <input
+                  value={rule.value}
+                  onChange={e => updateRule(rule.id, { value: e.target.value })}
+                  placeholder={IMPORT_RULE_PLACEHOLDERS[rule.kind]}
+                  className={cn(
+                    "flex-1 min-w-[12rem] px-3 py-1.5 bg-white border rounded-lg font-mono text-xs text-slate-700 outline-none",
+                    rule.enabled ? "border-slate-200" : "border-slate-100 text-slate-400"
+                  )}
+                />
+                <button
+                  onClick={() => removeRule(rule.id)}
+                  title="删除规则"
+                  className="p-1.5 rounded-lg text-slate-300 hover:text-red-500 hover:bg-red-50 transition-all"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              {error && (
+                <p className="flex items-center text-[11px] font-bold text-red-500 pl-6">
+                  <AlertCircle size={12} className="mr-1.5" /> {error}，该规则暂不生效
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => addRule({ kind: 'port', action: 'deny', value: '' })}
+          className="flex items-center space-x-1 px-3 py-1.5 rounded-lg text-[11px] font-black bg-slate-900 text-white hover:bg-black transition-all active:scale-95"
+        >
+          <Plus size={12} /> <span>添加规则</span>
+        </button>
+        <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest ml-2">预设</span>
+        {IMPORT_RULE_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => addRule(preset.rule)}
+            className="px-2.5 py-1.5 rounded-lg text-[11px] font-bold bg-white border border-slate-200 text-slate-500 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
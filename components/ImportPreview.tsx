@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { ListChecks, Check, X, ArrowUpToLine, ArrowDownToLine } from 'lucide-react';
+import { IpEntry, ImportOptions, ImportPosition } from '../types';
+import { ImportDiagnostic, ImportFormat, ImportOrigin, IMPORT_FORMAT_LABELS, formatOrigin } from '../utils/parser';
+import { isResolvedRegion } from '../utils/formatter';
+import { cn } from '../utils/cn';
+
+export interface PreviewRow {
+  entry: IpEntry;
+  origin: ImportOrigin;
+  existing?: IpEntry; // 列表中 ip:port 相同的条目
+}
+
+export interface ImportPreviewData {
+  rows: PreviewRow[];
+  diagnostics: ImportDiagnostic[];
+  sources: Partial<Record<ImportFormat, number>>;
+}
+
+interface ImportPreviewProps {
+  preview: ImportPreviewData;
+  position: ImportPosition;
+  onPositionChange: (position: ImportPosition) => void;
+  onConfirm: (entries: IpEntry[], options: ImportOptions) => void;
+  onCancel: () => void;
+}
+
+type DuplicateResolution = 'keep' | 'overwrite' | 'both';
+
+type RowStatus = 'new' | 'duplicate' | 'rejected' | 'skipped';
+
+const STATUS_LABELS: Record<RowStatus, string> = {
+  new: '新增',
+  duplicate: '重复',
+  rejected: '拒绝',
+  skipped: '跳过'
+};
+
+const STATUS_CLASSES: Record<RowStatus, string> = {
+  new: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  duplicate: 'bg-amber-50 text-amber-600 border-amber-100',
+  rejected: 'bg-red-50 text-red-500 border-red-100',
+  skipped: 'bg-slate-50 text-slate-400 border-slate-100'
+};
+
+const MAX_ROWS = 500;
+
+const ROW_GRID = 'grid grid-cols-[1.25rem_4.5rem_3rem_minmax(0,1.3fr)_minmax(0,1fr)_8.5rem] gap-3 items-center';
+
+type PreviewItem =
+  | { kind: 'row'; status: 'new' | 'duplicate'; row: PreviewRow }
+  | { kind: 'diagnostic'; status: 'rejected' | 'skipped'; diagnostic: ImportDiagnostic };
+
+const orderOf = (origin: ImportOrigin) => origin.line ?? origin.item ?? Number.MAX_SAFE_INTEGER;
+
+// 导入的地区与现有不同且已识别时才能覆盖；锁定条目不可修改
+const canOverwrite = ({ entry, existing }: PreviewRow) =>
+  !!existing && !existing.isLocked && isResolvedRegion(entry.region) && entry.region !== existing.region;
+
+// 导入的行带有测速数据时可更新到现有条目（两者都保留时测速数据随新条目写入）
+const carriesMetrics = ({ entry, existing }: PreviewRow) => !!existing && !existing.isLocked && !!entry.metrics;
+
+// 现有条目尚未识别出地区而导入的带有地区时，默认覆盖
+const defaultResolution = (row: PreviewRow): DuplicateResolution =>
+  canOverwrite(row) && !isResolvedRegion(row.existing!.region) ? 'overwrite' : 'keep';
+
+/**
+ * 导入预览：列出新增、重复、拒绝与跳过的行，确认后才写入列表
+ * 新增行可取消勾选；重复行可选择保留现有、覆盖地区或两者都保留，带测速数据的重复行可同时更新现有条目的测速结果
+ */
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ preview, position, onPositionChange, onConfirm, onCancel }) => {
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+  const [resolutions, setResolutions] = useState<Record<string, DuplicateResolution>>(() =>
+    Object.fromEntries(preview.rows.filter(row => row.existing).map(row => [row.entry.id, defaultResolution(row)]))
+  );
+  const [filter, setFilter] = useState<RowStatus | 'all'>('all');
+  const [updateMetrics, setUpdateMetrics] = useState(true);
+
+  const items = useMemo(() => {
+    const all: PreviewItem[] = [
+      ...preview.rows.map((row): PreviewItem => ({ kind: 'row', status: row.existing ? 'duplicate' : 'new', row })),
+      ...preview.diagnostics.map((diagnostic): PreviewItem => ({ kind: 'diagnostic', status: diagnostic.level, diagnostic }))
+    ];
+    return all.sort((a, b) =>
+      orderOf(a.kind === 'row' ? a.row.origin : a.diagnostic) - orderOf(b.kind === 'row' ? b.row.origin : b.diagnostic));
+  }, [preview]);
+
+  const counts = items.reduce<Record<RowStatus, number>>(
+    (acc, item) => ({ ...acc, [item.status]: acc[item.status] + 1 }),
+    { new: 0, duplicate: 0, rejected: 0, skipped: 0 }
+  );
+  const visible = filter === 'all' ? items : items.filter(item => item.status === filter);
+
+  const newRows = preview.rows.filter(row => !row.existing);
+  const added = preview.rows.filter(row => (row.existing ? resolutions[row.entry.id] === 'both' : !excluded.has(row.entry.id)));
+  const overwritten = preview.rows.filter(row => row.existing && resolutions[row.entry.id] === 'overwrite');
+  const metricsRows = preview.rows.filter(row => carriesMetrics(row) && resolutions[row.entry.id] !== 'both');
+  const metricsUpdated = updateMetrics ? metricsRows : [];
+  const allNewSelected = newRows.length > 0 && newRows.every(row => !excluded.has(row.entry.id));
+
+  const toggleRow = (id: string) =>
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const toggleAllNew = () => setExcluded(allNewSelected ? new Set(newRows.map(row => row.entry.id)) : new Set());
+
+  const handleConfirm = () =>
+    onConfirm(added.map(row => row.entry), {
+      position,
+      regionUpdates: Object.fromEntries(overwritten.map(row => [row.existing!.id, row.entry.region])),
+      metricsUpdates: Object.fromEntries(metricsUpdated.map(row => [row.existing!.id, row.entry.metrics!]))
+    });
+
+  const formats = (Object.keys(preview.sources) as ImportFormat[]).filter(format => format !== 'text');
+
+  const renderRow = (row: PreviewRow, status: 'new' | 'duplicate') => {
+    const id = row.entry.id;
+    return (
+      <>
+        {status === 'new' ? (
+          <input
+            type="checkbox"
+            checked={!excluded.has(id)}
+            onChange={() => toggleRow(id)}
+            className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+          />
+        ) : <span />}
+        <span className="font-mono font-bold text-slate-400">{formatOrigin(row.origin) || '-'}</span>
+        <span className={cn("px-1.5 py-0.5 rounded-md border text-[10px] font-black text-center", STATUS_CLASSES[status])}>{STATUS_LABELS[status]}</span>
+        <span title={row.origin.text} className={cn("font-mono truncate", status === 'new' && excluded.has(id) ? "text-slate-300 line-through" : "text-slate-700")}>
+          {row.entry.ip}:{row.entry.port}
+        </span>
+        <span className="truncate font-bold text-slate-500">
+          {row.existing ? (
+            <>
+              <span className="text-slate-300 font-medium">现有</span> {row.existing.region || '-'}
+              <span className="text-slate-300 font-medium"> → 导入</span> {row.entry.region || '-'}
+            </>
+          ) : (row.entry.region || <span className="text-slate-300 font-medium">待识别</span>)}
+        </span>
+        {row.existing ? (
+          <select
+            value={resolutions[id]}
+            onChange={e => setResolutions(prev => ({ ...prev, [id]: e.target.value as DuplicateResolution }))}
+            className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-[11px] font-bold text-slate-600 outline-none cursor-pointer"
+          >
+            <option value="keep">保留现有</option>
+            <option value="overwrite" disabled={!canOverwrite(row)}>覆盖地区</option>
+            <option value="both">两者都保留</option>
+          </select>
+        ) : <span />}
+      </>
+    );
+  };
+
+  const renderDiagnostic = (diagnostic: ImportDiagnostic) => (
+    <>
+      <span />
+      <span className="font-mono font-bold text-slate-400">{formatOrigin(diagnostic) || '-'}</span>
+      <span className={cn("px-1.5 py-0.5 rounded-md border text-[10px] font-black text-center", STATUS_CLASSES[diagnostic.level])}>{STATUS_LABELS[diagnostic.level]}</span>
+      <span title={diagnostic.text} className="font-mono text-slate-400 truncate">{diagnostic.text || '(空)'}</span>
+      <span className="col-span-2 font-medium text-slate-500">{diagnostic.reason}</span>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2.5 bg-indigo-50 rounded-2xl text-indigo-500 border border-indigo-100/50">
+            <ListChecks size={16} />
+          </div>
+          <div>
+            <h4 className="text-xs font-black text-slate-700 uppercase tracking-widest">导入预览</h4>
+            <p className="text-[11px] text-slate-400 font-medium">
+              {formats.length > 0 ? `识别为 ${formats.map(f => IMPORT_FORMAT_LABELS[f]).join('、')} · ` : ''}
+              共 {items.length} 行，确认前不会修改列表
+            </p>
+          </div>
+        </div>
+        {newRows.length > 0 && (
+          <label className="flex items-center space-x-2 text-xs text-slate-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allNewSelected}
+              onChange={toggleAllNew}
+              className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+            />
+            <span className="font-bold select-none">全选新增</span>
+          </label>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 overflow-hidden">
+        <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex flex-wrap items-center gap-1">
+          {(['all', 'new', 'duplicate', 'rejected', 'skipped'] as const).map(key => (
+            <button
+              key={key}
+              onClick={() => setFilter(key)}
+              className={cn(
+                "px-3 py-1 rounded-lg text-[11px] font-black transition-all",
+                filter === key ? "bg-slate-900 text-white" : "text-slate-400 hover:text-slate-600"
+              )}
+            >
+              {key === 'all' ? `全部 ${items.length}` : `${STATUS_LABELS[key]} ${counts[key]}`}
+            </button>
+          ))}
+        </div>
+        <div className="max-h-80 overflow-y-auto bg-white divide-y divide-slate-50 text-[11px]">
+          {visible.slice(0, MAX_ROWS).map((item, i) => (
+            <div key={item.kind === 'row' ? item.row.entry.id : `d-${i}`} className={cn("px-4 py-2", ROW_GRID)}>
+              {item.kind === 'row' ? renderRow(item.row, item.status) : renderDiagnostic(item.diagnostic)}
+            </div>
+          ))}
+          {visible.length === 0 && <p className="px-4 py-6 text-center text-slate-300 font-medium">没有此类行</p>}
+          {visible.length > MAX_ROWS && (
+            <p className="px-4 py-2 text-slate-400 font-medium">仅显示前 {MAX_ROWS} 行，共 {visible.length} 行</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="flex bg-slate-100 rounded-xl p-1">
+            {([['top', '插入到顶部', ArrowUpToLine], ['bottom', '追加到底部', ArrowDownToLine]] as const).map(([value, label, Icon]) => (
+              <button
+                key={value}
+                onClick={() => onPositionChange(value)}
+                className={cn(
+                  "flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-[11px] font-black transition-all",
+                  position === value ? "bg-white text-indigo-600 shadow-sm" : "text-slate-400 hover:text-slate-600"
+                )}
+              >
+                <Icon size={12} /> <span>{label}</span>
+              </button>
+            ))}
+          </div>
+          <span className="text-[11px] font-bold text-slate-500">
+            将新增 {added.length} 条{overwritten.length > 0 ? `，覆盖 ${overwritten.length} 条地区` : ''}
+            {metricsUpdated.length > 0 ? `，更新 ${metricsUpdated.length} 条测速数据` : ''}
+          </span>
+          {metricsRows.length > 0 && (
+            <label className="flex items-center space-x-2 text-[11px] text-slate-500 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={updateMetrics}
+                onChange={e => setUpdateMetrics(e.target.checked)}
+                className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+              />
+              <span className="font-bold select-none">重复节点更新测速数据</span>
+            </label>
+          )}
+        </div>
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-2 px-6 py-3 rounded-2xl text-xs font-black text-slate-500 bg-slate-100 hover:bg-slate-200 transition-all active:scale-95"
+          >
+            <X size={14} /> <span>取消</span>
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={added.length === 0 && overwritten.length === 0 && metricsUpdated.length === 0}
+            className="flex items-center space-x-2 px-8 py-3 rounded-2xl text-xs font-black bg-indigo-600 text-white hover:bg-indigo-700 shadow-xl shadow-indigo-200 transition-all active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed disabled:shadow-none"
+          >
+            <Check size={14} /> <span>确认导入</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,41 @@
-import React, { useState } from 'react';
-import { Plus, Upload, AlertCircle, Terminal, FileCode, Sparkles, Wand2, Monitor } from 'lucide-react';
-import { IpEntry } from '../types';
+import React, { useState, useRef } from 'react';
+import { Plus, Upload, AlertCircle, Terminal, FileCode, Sparkles, Wand2, ShieldAlert, FolderOpen } from 'lucide-react';
+import { IpEntry, ImportPolicy, ImportOptions, ImportPosition, CidrImportOptions } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import { parseBatchInput } from '../utils/parser';
+import { parseBatchInput, IMPORT_FORMAT_LABELS, ImportFormat, ImportOrigin, ParseResult } from '../utils/parser';
+import { readFileText, getFileExtension, parseCsv, parseEntriesJson, csvRowsToEntries, CsvColumnMapping } from '../utils/file';
+import { parseSpeedTestRows } from '../utils/speedtest';
+import { applyImportPolicy, describeImportRule } from '../utils/importPolicy';
+import { validateHostPort } from '../utils/validate';
+import { DEFAULT_CIDR_OPTIONS, containsCidr } from '../utils/cidr';
+import { CsvMapping } from './CsvMapping';
+import { ImportPolicyPanel } from './ImportPolicyPanel';
+import { ImportPreview, ImportPreviewData } from './ImportPreview';
+import { CidrOptionsPanel } from './CidrOptionsPanel';
 import { cn } from '../utils/cn';
 
 interface IpInputProps {
-  onAdd: (entries: IpEntry[]) => void;
+  onAdd: (entries: IpEntry[], options?: ImportOptions) => void;
   existingEntries: IpEntry[];
+  policy: ImportPolicy;
+  onPolicyChange: (policy: ImportPolicy) => void;
 }
 
-export const IpInput: React.FC<IpInputProps> = ({ onAdd, existingEntries }) => {
+export const IpInput: React.FC<IpInputProps> = ({ onAdd, existingEntries, policy, onPolicyChange }) => {
   const [mode, setMode] = useState<'single' | 'batch'>('batch');
   const [singleIp, setSingleIp] = useState('');
   const [singlePort, setSinglePort] = useState('');
   const [singleRegion, setSingleRegion] = useState('');
   const [batchText, setBatchText] = useState('');
   const [error, setError] = useState<{ msg: string; type: 'error' | 'success' } | null>(null);
+  const [preview, setPreview] = useState<(ImportPreviewData & { fromBatchText: boolean }) | null>(null);
+  const [insertPosition, setInsertPosition] = useState<ImportPosition>('top');
+  const [isDragging, setIsDragging] = useState(false);
+  const [pendingCsv, setPendingCsv] = useState<{ name: string; rows: string[][] } | null>(null);
+  const [showPolicy, setShowPolicy] = useState(false);
+  const [cidrOptions, setCidrOptions] = useState<CidrImportOptions>(DEFAULT_CIDR_OPTIONS);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const isDuplicate = (ip: string, port: string) => {
     return existingEntries.some(e => e.ip === ip && e.port === port);
@@ -31,59 +50,159 @@ export const IpInput: React.FC<IpInputProps> = ({ onAdd, existingEntries }) => {
     e.preventDefault();
     setError(null);
     if (!singleIp || !singlePort) { setError({ msg: 'IP 和端口是必填项', type: 'error' }); return; }
-    
-    // 同时也对手动添加做限制
-    if (singlePort === '80' || singlePort === '8080') {
-      setError({ msg: '系统策略：禁止添加 80 或 8080 端口的节点', type: 'error' });
+
+    const ip = singleIp.trim().replace(/^\[(.*)\]$/, '$1');
+    const port = singlePort.trim();
+    const invalid = validateHostPort(ip, port);
+    if (invalid) { setError({ msg: invalid, type: 'error' }); return; }
+
+    const entry: IpEntry = { id: uuidv4(), ip, port, region: singleRegion, active: true };
+    const { rejections } = applyImportPolicy([entry], policy);
+    if (rejections.length > 0) {
+      setError({ msg: `导入策略：${describeImportRule(rejections[0].rule)}，未添加该节点`, type: 'error' });
       return;
     }
 
-    if (isDuplicate(singleIp, singlePort)) { setError({ msg: `IP ${singleIp}:${singlePort} 已存在`, type: 'error' }); return; }
+    if (isDuplicate(ip, port)) { setError({ msg: `IP ${ip}:${port} 已存在`, type: 'error' }); return; }
 
-    onAdd([{ id: uuidv4(), ip: singleIp, port: singlePort, region: singleRegion, active: true }]);
+    onAdd([entry]);
     setSingleIp(''); setSinglePort(''); setSingleRegion('');
     setError({ msg: '添加成功', type: 'success' });
     setTimeout(() => setError(null), 2000);
   };
 
+  /**
+   * 批量导入的统一出口：导入策略过滤、与现有列表比对后进入预览，确认后才写入列表
+   */
+  const importParsed = ({ entries: parsed, sources, diagnostics: parseDiagnostics, origins }: ParseResult, fromBatchText = false) => {
+    const diagnostics = [...parseDiagnostics];
+    const locate = (entry: IpEntry): ImportOrigin => origins[entry.id] ?? { text: `${entry.ip}:${entry.port}` };
+
+    const { accepted, rejected } = applyImportPolicy(parsed, policy);
+    rejected.forEach(({ entry, rule }) =>
+      diagnostics.push({ ...locate(entry), level: 'rejected', reason: `导入策略：${describeImportRule(rule)}` })
+    );
+
+    if (accepted.length === 0 && diagnostics.length === 0) {
+      setError({ msg: '没有识别到可导入的 IP 与端口', type: 'error' });
+      return;
+    }
+
+    const rows = accepted.map(entry => ({
+      entry,
+      origin: locate(entry),
+      existing: existingEntries.find(e => e.ip === entry.ip && e.port === entry.port)
+    }));
+    setPreview({ rows, diagnostics, sources, fromBatchText });
+  };
+
+  const handleConfirmImport = (entries: IpEntry[], options: ImportOptions) => {
+    if (!preview) return;
+    const overwritten = Object.keys(options.regionUpdates || {}).length;
+    const remeasured = Object.keys(options.metricsUpdates || {}).length;
+    onAdd(entries, options);
+
+    const sourceSummary = (Object.keys(preview.sources) as ImportFormat[])
+      .filter(format => format !== 'text')
+      .map(format => `${IMPORT_FORMAT_LABELS[format]} ${preview.sources[format]} 个节点`)
+      .join('、');
+    const msg = `成功导入 ${entries.length} 条数据${sourceSummary ? `（来自 ${sourceSummary}）` : ''}${overwritten > 0 ? `，覆盖 ${overwritten} 条地区` : ''}${remeasured > 0 ? `，更新 ${remeasured} 条测速数据` : ''}`;
+    setError({ msg, type: 'success' });
+    setTimeout(() => setError(null), 4000);
+
+    if (preview.fromBatchText) setBatchText('');
+    setPreview(null);
+    setPendingCsv(null);
+  };
+
   const handleBatchAdd = () => {
     setError(null);
     if (!batchText.trim()) return;
-    const parsed = parseBatchInput(batchText);
-    const newEntries: IpEntry[] = [];
-    let dups = 0;
-    let forbiddenPortsCount = 0;
-
-    parsed.forEach(entry => {
-      // 忽略 80 和 8080 端口
-      if (entry.port === '80' || entry.port === '8080') {
-        forbiddenPortsCount++;
+    importParsed(parseBatchInput(batchText, cidrOptions), true);
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    setPreview(null);
+    setMode('batch');
+
+    let text: string;
+    try {
+      text = await readFileText(file);
+    } catch (err) {
+      setError({ msg: `无法读取文件 ${file.name}`, type: 'error' });
+      return;
+    }
+
+    const ext = getFileExtension(file.name);
+    if (ext === 'csv' || ext === 'tsv') {
+      const rows = parseCsv(text);
+      if (rows.length === 0) { setError({ msg: `${file.name} 中没有数据`, type: 'error' }); return; }
+      // CloudflareST 的 result.csv 表头固定，直接导入测速指标，无需手动映射
+      const speedtest = parseSpeedTestRows(rows);
+      if (speedtest) {
+        const result = parseBatchInput(text);
+        if (result.entries.length === 0 && result.diagnostics.length === 0) { setError({ msg: `${file.name} 中没有测速结果`, type: 'error' }); return; }
+        importParsed(result);
         return;
       }
+      setPendingCsv({ name: file.name, rows });
+      return;
+    }
 
-      if (!isDuplicate(entry.ip, entry.port) && !newEntries.some(ne => ne.ip === entry.ip && ne.port === entry.port)) {
-        newEntries.push(entry);
-      } else { 
-        dups++; 
-      }
-    });
+    const backup = ext === 'json' ? parseEntriesJson(text) : null;
+    if (backup) {
+      importParsed(backup);
+      return;
+    }
 
-    if (newEntries.length === 0 && parsed.length > 0) { 
-      let msg = '没有有效的 IP 可导入。';
-      if (forbiddenPortsCount > 0) msg += ` (已过滤 ${forbiddenPortsCount} 个 80/8080 端口)`;
-      setError({ msg, type: 'error' }); 
-      return; 
+    // 含网段的文本文件载入编辑框，确认网段导入方式后再解析
+    if (containsCidr(text)) {
+      setBatchText(text);
+      setError({ msg: `${file.name} 包含 CIDR 网段，已载入编辑框，请确认网段导入方式后点击"开始解析并导入"`, type: 'success' });
+      return;
     }
 
-    onAdd(newEntries);
-    setBatchText('');
-    const successMsg = `成功导入 ${newEntries.length} 条数据${dups > 0 ? `，忽略 ${dups} 条重复` : ''}${forbiddenPortsCount > 0 ? `，已自动忽略 ${forbiddenPortsCount} 个 80/8080 端口节点` : ''}`;
-    setError({ msg: successMsg, type: 'success' });
-    setTimeout(() => setError(null), 4000);
+    const result = parseBatchInput(text, cidrOptions);
+    if (result.entries.length === 0 && result.diagnostics.length === 0) { setError({ msg: `${file.name} 中没有识别到节点`, type: 'error' }); return; }
+    importParsed(result);
+  };
+
+  const handleCsvConfirm = (mapping: CsvColumnMapping) => {
+    if (!pendingCsv) return;
+    const result = csvRowsToEntries(pendingCsv.rows, mapping);
+    if (result.entries.length === 0 && result.diagnostics.length === 0) { setError({ msg: '按当前映射没有解析出有效的 IP 和端口', type: 'error' }); return; }
+    importParsed(result);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handleFile(file);
   };
 
   return (
-    <div className="bg-white/40 backdrop-blur-xl rounded-[2.5rem] shadow-2xl shadow-slate-200/50 border border-white/80 overflow-hidden transition-all duration-500">
+    <div
+      onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false); }}
+      onDrop={handleDrop}
+      className={cn(
+        "bg-white/40 backdrop-blur-xl rounded-[2.5rem] shadow-2xl shadow-slate-200/50 border border-white/80 overflow-hidden transition-all duration-500",
+        isDragging && "ring-4 ring-indigo-200 border-indigo-300"
+      )}
+    >
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".txt,.csv,.tsv,.json,.yaml,.yml,.conf"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
       <div className="p-3 bg-slate-50/50 border-b border-slate-100 flex items-center justify-between">
         <div className="flex bg-slate-200/50 rounded-2xl p-1 relative w-full sm:w-auto">
           <button
@@ -106,10 +225,16 @@ export const IpInput: React.FC<IpInputProps> = ({ onAdd, existingEntries }) => {
           </button>
         </div>
         
-        <div className="hidden sm:flex items-center space-x-3 text-[10px] font-black text-slate-300 uppercase tracking-widest px-4">
-          <Monitor size={14} />
-          <span>解析引擎 v2.1 (Port Filtered)</span>
-        </div>
+        <button
+          onClick={() => setShowPolicy(prev => !prev)}
+          className={cn(
+            "hidden sm:flex items-center space-x-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all",
+            showPolicy ? "bg-white text-indigo-600 shadow-sm ring-1 ring-slate-200/50" : "text-slate-400 hover:text-indigo-600"
+          )}
+        >
+          <ShieldAlert size={14} />
+          <span>导入策略 ({policy.rules.filter(rule => rule.enabled).length})</span>
+        </button>
       </div>
 
       <div className="p-8 md:p-10">
@@ -125,7 +250,24 @@ export const IpInput: React.FC<IpInputProps> = ({ onAdd, existingEntries }) => {
           </div>
         )}
 
-        {mode === 'single' ? (
+        {showPolicy && <ImportPolicyPanel policy={policy} onPolicyChange={onPolicyChange} />}
+
+        {preview ? (
+          <ImportPreview
+            preview={preview}
+            position={insertPosition}
+            onPositionChange={setInsertPosition}
+            onConfirm={handleConfirmImport}
+            onCancel={() => setPreview(null)}
+          />
+        ) : pendingCsv ? (
+          <CsvMapping
+            fileName={pendingCsv.name}
+            rows={pendingCsv.rows}
+            onConfirm={handleCsvConfirm}
+            onCancel={() => setPendingCsv(null)}
+          />
+        ) : mode === 'single' ? (
           <form onSubmit={handleSingleAdd} className="grid grid-cols-1 md:grid-cols-4 gap-6 items-end">
             <div className="space-y-3">
               <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest pl-1 block">IP 地址</label>
@@ -154,10 +296,17 @@ export const IpInput: React.FC<IpInputProps> = ({ onAdd, existingEntries }) => {
                 value={batchText}
                 onChange={e => setBatchText(e.target.value)}
                 className="w-full h-64 pl-16 pr-6 py-5 bg-transparent text-slate-700 border-none focus:ring-0 font-mono text-[14px] leading-relaxed placeholder:text-slate-300 resize-none selection:bg-indigo-100 outline-none"
-                placeholder={`在此粘贴包含 IP 的文本数据，例如：\n127.0.0.1:8080 #将被忽略\n8.8.8.8:53 - 美国谷歌\n203.239.100.72 , 2095\n网页上直接复制的数据也可以识别...`}
+                placeholder={`在此粘贴包含 IP 的文本数据，例如：\n127.0.0.1:8080 #将被忽略\n8.8.8.8:53 - 美国谷歌\n203.239.100.72 , 2095\n172.64.0.0/24:443 (CIDR 网段可展开或抽样)\n网页上直接复制的数据、Base64 订阅、Clash YAML、sing-box JSON 也可以识别...`}
               />
 
-              <div className="absolute right-4 top-4">
+              <div className="absolute right-4 top-4 flex items-center space-x-2">
+                <button 
+                  onClick={() => fileInputRef.current?.click()}
+                  className="px-4 py-2 bg-white hover:bg-slate-50 text-[10px] font-black text-slate-500 rounded-xl shadow-sm border border-slate-100 transition-all flex items-center space-x-2 active:scale-95"
+                >
+                  <FolderOpen size={12} />
+                  <span>导入文件</span>
+                </button>
                 <button 
                   onClick={fillExample}
                   className="px-4 py-2 bg-white hover:bg-slate-50 text-[10px] font-black text-indigo-500 rounded-xl shadow-sm border border-slate-100 transition-all flex items-center space-x-2 active:scale-95"
@@ -168,6 +317,8 @@ export const IpInput: React.FC<IpInputProps> = ({ onAdd, existingEntries }) => {
               </div>
             </div>
 
+            {containsCidr(batchText) && <CidrOptionsPanel options={cidrOptions} onOptionsChange={setCidrOptions} />}
+
             <div className="flex flex-col md:flex-row items-center justify-between gap-8 pt-2">
               <div className="flex items-start space-x-4 max-w-lg">
                 <div className="mt-1 p-2.5 bg-indigo-50 rounded-2xl text-indigo-500 shrink-0 shadow-sm border border-indigo-100/50">
@@ -176,7 +327,7 @@ export const IpInput: React.FC<IpInputProps> = ({ onAdd, existingEntries }) => {
                 <div>
                   <h4 className="text-xs font-black text-slate-700 uppercase tracking-widest mb-1">AI 智能识别 (策略过滤开启)</h4>
                   <p className="text-[11px] leading-relaxed text-slate-400 font-medium italic">
-                    支持各种格式的模糊输入，系统将自动清洗重复项，并根据安全策略<span className="text-indigo-600 font-bold">自动忽略 80/8080 端口</span>。
+                    支持各种格式的模糊输入，也可拖入 TXT / CSV / JSON 文件，系统将自动清洗重复项，并按<button onClick={() => setShowPolicy(true)} className="text-indigo-600 font-bold hover:underline">导入策略</button>过滤不符合规则的节点，导入前可在预览中逐行确认，无效或未识别的行会列出原因。
                   </p>
                 </div>
               </div>
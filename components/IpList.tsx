@@ -20,29 +20,137 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { restrictToVerticalAxis, restrictToWindowEdges } from '@dnd-kit/modifiers';
-import { GripVertical, Trash2, MapPin, Hash, Globe, CheckCircle2, ChevronLeft, ChevronRight, Lock } from 'lucide-react';
-import { IpEntry } from '../types';
+import { GripVertical, Trash2, MapPin, Hash, Globe, CheckCircle2, ChevronLeft, ChevronRight, Lock, RotateCw, Server, ArrowUp, ArrowDown, Gauge, Network, Loader2 } from 'lucide-react';
+import { IpEntry, SortField, SortState, ExportTemplate } from '../types';
+import { formatAsn } from '../utils/geoDetails';
+import { SORT_FIELD_LABELS } from '../utils/sort';
+import { EntriesSetter } from '../utils/history';
+import { validateHost, validatePort, isValidHostname } from '../utils/validate';
+import { cn } from '../utils/cn';
+import { BulkActionBar } from './BulkActionBar';
 
 const ITEMS_PER_PAGE = 10;
 
+const latencyColor = (latency: number) =>
+  latency < 200 ? 'text-emerald-500' : latency < 500 ? 'text-amber-500' : 'text-red-500';
+
+// 行内编辑单个字段；地区变化后归属详情不再对应，地址或端口变化后旧测速数据失效
+const applyFieldEdit = (entry: IpEntry, field: keyof IpEntry, value: any): IpEntry => {
+  const next: IpEntry = { ...entry, [field]: value };
+  if (field === 'region' || field === 'ip') next.geo = undefined;
+  if (field === 'port' || field === 'ip') next.metrics = undefined;
+  return next;
+};
+
+const HEADER_CLASS = 'px-6 py-4 text-left text-[10px] font-black text-slate-400 uppercase tracking-widest';
+
+interface SortHeaderProps {
+  field: SortField;
+  label: string;
+  sort?: SortState | null;
+  onSortChange?: (sort: SortState | null) => void;
+  className?: string;
+}
+
+// 点击依次切换：升序 → 降序 → 取消排序
+const SortHeader = ({ field, label, sort, onSortChange, className }: SortHeaderProps) => {
+  const isActive = sort?.field === field;
+  const handleClick = () => {
+    if (!onSortChange) return;
+    if (!isActive) onSortChange({ field, direction: 'asc' });
+    else if (sort.direction === 'asc') onSortChange({ field, direction: 'desc' });
+    else onSortChange(null);
+  };
+
+  return (
+    <th className={`${HEADER_CLASS} ${className || ''}`}>
+      <button
+        type="button"
+        onClick={handleClick}
+        className={`inline-flex items-center space-x-1 uppercase tracking-widest transition-colors ${isActive ? 'text-indigo-500' : 'hover:text-slate-600'}`}
+      >
+        <span>{label}</span>
+        {isActive && (sort.direction === 'asc' ? <ArrowUp size={10} /> : <ArrowDown size={10} />)}
+      </button>
+    </th>
+  );
+};
+
+interface ValidatedInputProps {
+  value: string;
+  validate: (value: string) => string | null;
+  onCommit: (value: string) => void;
+  readOnly?: boolean;
+  className: string;
+}
+
+/**
+ * 行内编辑：输入过程中只校验并标红提示原因，失焦或回车时有效且有变化才写入列表（一步历史）；
+ * 无效的输入在失焦后恢复为原值，Esc 放弃修改
+ */
+const ValidatedInput = ({ value, validate, onCommit, readOnly, className }: ValidatedInputProps) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const error = draft === null ? null : validate(draft);
+
+  const commit = () => {
+    if (draft !== null && !error && draft.trim() !== value) onCommit(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <input
+      className={cn(className, error && "text-red-500 underline decoration-wavy decoration-red-300")}
+      value={draft ?? value}
+      readOnly={readOnly}
+      title={error ?? undefined}
+      aria-invalid={!!error}
+      onChange={(e) => setDraft(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        else if (e.key === 'Escape') setDraft(null);
+      }}
+      onBlur={commit}
+      onClick={(e) => e.stopPropagation()}
+    />
+  );
+};
+
 interface RowContentProps {
   entry: IpEntry;
   onRemove?: (id: string) => void;
   onUpdate?: (id: string, field: keyof IpEntry, value: any) => void;
+  onReidentify?: (ids: string[]) => void;
+  isIdentifyingAll?: boolean;
+  onResolveDomains?: (ids: string[]) => void;
+  isResolving?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (id: string, range: boolean) => void;
   isOverlay?: boolean;
   attributes?: any;
   listeners?: any;
 }
 
-const RowContent = ({ entry, onRemove, onUpdate, isOverlay, attributes, listeners }: RowContentProps) => {
+const RowContent = ({ entry, onRemove, onUpdate, onReidentify, isIdentifyingAll, onResolveDomains, isResolving, isSelected, onToggleSelect, isOverlay, attributes, listeners }: RowContentProps) => {
   const isIdentifying = entry.region === '识别中...';
+  const isDomain = isValidHostname(entry.ip);
   const isPending = !entry.region || entry.region === '待识别';
   const isUnknown = entry.region === '未知' || entry.region === 'FAIL';
   const isLocked = entry.isLocked;
 
   return (
     <>
-      <td className="pl-6 pr-1 py-5 w-14 text-center">
+      <td className="pl-6 pr-1 py-5 w-10 text-center">
+        <input
+          type="checkbox"
+          title={isLocked ? '锁定项不可选择' : '选择（按住 Shift 连续选择）'}
+          checked={!!isSelected}
+          disabled={isLocked}
+          readOnly
+          onClick={(e) => { e.stopPropagation(); !isOverlay && !isLocked && onToggleSelect?.(entry.id, e.shiftKey); }}
+          className={`w-4 h-4 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500 ${isLocked ? 'cursor-not-allowed opacity-30' : 'cursor-pointer'}`}
+        />
+      </td>
+      <td className="px-1 py-5 w-12 text-center">
         {!isLocked ? (
           <div 
             {...attributes}
@@ -73,24 +181,51 @@ const RowContent = ({ entry, onRemove, onUpdate, isOverlay, attributes, listener
       <td className="px-6 py-5 min-w-[220px]">
         <div className="flex items-center space-x-4">
           <Globe size={18} className="text-slate-300 shrink-0" />
-          <input 
+          <ValidatedInput
               className={`bg-transparent border-none focus:ring-0 p-0 w-full font-bold font-mono text-[16px] tracking-tight outline-none ${isLocked ? 'text-slate-400 cursor-default' : 'text-slate-900'}`}
               value={entry.ip}
               readOnly={isLocked}
-              onChange={(e) => !isOverlay && !isLocked && onUpdate?.(entry.id, 'ip', e.target.value)}
-              onClick={(e) => e.stopPropagation()}
+              validate={validateHost}
+              onCommit={(value) => !isOverlay && !isLocked && onUpdate?.(entry.id, 'ip', value.replace(/^\[(.*)\]$/, '$1'))}
           />
+          {isDomain && (
+            <span
+              title="域名条目，可通过 DoH 解析为 IP"
+              className="shrink-0 px-2 py-0.5 rounded-md bg-sky-50 border border-sky-100 text-[10px] font-black text-sky-500 tracking-wider select-none"
+            >
+              域名
+            </span>
+          )}
+          {isDomain && !isOverlay && !isLocked && onResolveDomains && (
+            <button
+              type="button"
+              title="通过 DoH 解析为 IP"
+              disabled={isResolving}
+              onClick={(e) => { e.stopPropagation(); onResolveDomains([entry.id]); }}
+              className="shrink-0 text-slate-300 hover:text-sky-500 disabled:cursor-wait disabled:hover:text-slate-300 transition-all p-1 rounded-lg"
+            >
+              {isResolving ? <Loader2 size={14} className="animate-spin" /> : <Network size={14} />}
+            </button>
+          )}
+          {entry.protocol && (
+            <span
+              title={entry.remark}
+              className="shrink-0 px-2 py-0.5 rounded-md bg-indigo-50 border border-indigo-100 text-[10px] font-black text-indigo-500 uppercase tracking-wider select-none"
+            >
+              {entry.protocol}
+            </span>
+          )}
         </div>
       </td>
       <td className="px-6 py-5 w-40">
         <div className="flex items-center space-x-3">
           <Hash size={14} className="text-slate-300 shrink-0" />
-          <input 
+          <ValidatedInput
               className={`bg-transparent border-none focus:ring-0 p-0 w-full font-mono text-[15px] font-medium outline-none ${isLocked ? 'text-slate-400 cursor-default' : 'text-slate-600'}`}
               value={entry.port}
               readOnly={isLocked}
-              onChange={(e) => !isOverlay && !isLocked && onUpdate?.(entry.id, 'port', e.target.value)}
-              onClick={(e) => e.stopPropagation()}
+              validate={validatePort}
+              onCommit={(value) => !isOverlay && !isLocked && onUpdate?.(entry.id, 'port', value)}
           />
         </div>
       </td>
@@ -110,8 +245,76 @@ const RowContent = ({ entry, onRemove, onUpdate, isOverlay, attributes, listener
               onChange={(e) => !isOverlay && !isLocked && onUpdate?.(entry.id, 'region', e.target.value)}
               onClick={(e) => e.stopPropagation()}
           />
+          {entry.metrics?.colo && (
+            <span
+              title="Cloudflare 数据中心"
+              className="shrink-0 px-1.5 py-0.5 rounded-md bg-orange-50 border border-orange-100 text-[10px] font-black text-orange-500 tracking-wider select-none"
+            >
+              {entry.metrics.colo}
+            </span>
+          )}
+          {!isOverlay && !isLocked && onReidentify && (
+            <button
+              type="button"
+              title="强制重新识别（跳过缓存）"
+              disabled={isIdentifyingAll}
+              onClick={(e) => { e.stopPropagation(); onReidentify([entry.id]); }}
+              className="shrink-0 text-slate-200 opacity-0 group-hover:opacity-100 hover:text-indigo-500 disabled:cursor-not-allowed disabled:hover:text-slate-200 transition-all p-1 rounded-lg"
+            >
+              <RotateCw size={14} />
+            </button>
+          )}
+        </div>
+      </td>
+      <td className="px-6 py-5 w-28 font-mono text-[13px] font-bold text-slate-600 whitespace-nowrap">
+        {entry.geo?.asn ? formatAsn(entry.geo.asn) : <span className="text-slate-200">-</span>}
+      </td>
+      <td className="px-6 py-5 w-44">
+        <p className="text-[13px] font-medium text-slate-600 truncate" title={entry.geo?.org}>
+          {entry.geo?.org || <span className="text-slate-200">-</span>}
+        </p>
+      </td>
+      <td className="px-6 py-5 w-32">
+        <p className="text-[13px] font-medium text-slate-600 truncate" title={entry.geo?.city}>
+          {entry.geo?.city || <span className="text-slate-200">-</span>}
+        </p>
+      </td>
+      <td className="px-4 py-5 w-20 text-center">
+        {entry.geo?.hosting === undefined ? (
+          <span className="text-slate-200">-</span>
+        ) : entry.geo.hosting ? (
+          <span title="数据中心 / 托管 IP" className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-md bg-amber-50 border border-amber-100 text-[10px] font-black text-amber-600">
+            <Server size={10} /> <span>IDC</span>
+          </span>
+        ) : (
+          <span className="text-[10px] font-black text-slate-400">非 IDC</span>
+        )}
+      </td>
+      <td className="px-6 py-5 w-28 whitespace-nowrap">
+        <div
+          className="flex items-center space-x-2"
+          title={entry.metrics?.checkedAt ? `测试于 ${new Date(entry.metrics.checkedAt).toLocaleString()}` : '尚未测试'}
+        >
+          <Gauge size={14} className="text-slate-300 shrink-0" />
+          {entry.metrics?.timedOut ? (
+            <span className="text-[13px] font-black text-red-500">超时</span>
+          ) : entry.metrics?.latency !== undefined ? (
+            <span className={`font-mono text-[13px] font-black ${latencyColor(entry.metrics.latency)}`}>{entry.metrics.latency} ms</span>
+          ) : (
+            <span className="text-slate-200">-</span>
+          )}
         </div>
       </td>
+      <td className="px-6 py-5 w-24 font-mono text-[13px] font-bold whitespace-nowrap">
+        {entry.metrics?.loss !== undefined ? (
+          <span className={entry.metrics.loss > 0 ? 'text-red-400' : 'text-slate-500'}>{(entry.metrics.loss * 100).toFixed(entry.metrics.loss > 0 ? 1 : 0)}%</span>
+        ) : (
+          <span className="text-slate-200">-</span>
+        )}
+      </td>
+      <td className="px-6 py-5 w-28 font-mono text-[13px] font-bold text-slate-600 whitespace-nowrap">
+        {entry.metrics?.speed !== undefined ? `${entry.metrics.speed.toFixed(2)} MB/s` : <span className="text-slate-200">-</span>}
+      </td>
       <td className="pr-6 pl-2 py-5 w-14 text-right">
         {!isOverlay && !isLocked && (
           <button 
@@ -131,9 +334,16 @@ interface SortableRowProps {
   entry: IpEntry;
   onRemove: (id: string) => void;
   onUpdate: (id: string, field: keyof IpEntry, value: any) => void;
+  onReidentify?: (ids: string[]) => void;
+  isIdentifyingAll?: boolean;
+  onResolveDomains?: (ids: string[]) => void;
+  isResolving?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (id: string, range: boolean) => void;
+  dragDisabled?: boolean;
 }
 
-const SortableRow = memo(({ entry, onRemove, onUpdate }: SortableRowProps) => {
+const SortableRow = memo(({ entry, onRemove, onUpdate, onReidentify, isIdentifyingAll, onResolveDomains, isResolving, isSelected, onToggleSelect, dragDisabled }: SortableRowProps) => {
   const { 
     attributes, 
     listeners, 
@@ -143,7 +353,7 @@ const SortableRow = memo(({ entry, onRemove, onUpdate }: SortableRowProps) => {
     isDragging 
   } = useSortable({ 
     id: entry.id,
-    disabled: entry.isLocked // 禁用锁定项的拖拽功能
+    disabled: entry.isLocked || dragDisabled // 禁用锁定项的拖拽功能；排序视图下也不允许拖拽
   });
 
   const style = {
@@ -160,13 +370,19 @@ const SortableRow = memo(({ entry, onRemove, onUpdate }: SortableRowProps) => {
       className={`group border-b border-slate-50 last:border-0 ${
         isDragging 
           ? 'opacity-20 bg-indigo-50/50' 
-          : 'bg-white hover:bg-indigo-50/20'
+          : isSelected ? 'bg-indigo-50/60' : 'bg-white hover:bg-indigo-50/20'
       } ${!entry.active && !isDragging ? 'opacity-30' : ''}`}
     >
       <RowContent 
         entry={entry} 
         onRemove={onRemove} 
         onUpdate={onUpdate} 
+        onReidentify={onReidentify}
+        isIdentifyingAll={isIdentifyingAll}
+        onResolveDomains={onResolveDomains}
+        isResolving={isResolving}
+        isSelected={isSelected}
+        onToggleSelect={onToggleSelect}
         attributes={attributes}
         listeners={listeners}
       />
@@ -178,12 +394,25 @@ SortableRow.displayName = 'SortableRow';
 
 interface IpListProps {
   entries: IpEntry[];
-  setEntries: React.Dispatch<React.SetStateAction<IpEntry[]>>;
+  allEntries?: IpEntry[]; // 未经筛选的完整列表，用于批量改端口时检查 ip:端口 冲突
+  setEntries: EntriesSetter;
+  templates?: ExportTemplate[];
+  workspaces?: { id: string; name: string }[]; // 可作为移动 / 复制目标的其他工作区
+  onTransfer?: (ids: string[], workspaceId: string, mode: 'move' | 'copy') => void;
+  onReidentify?: (ids: string[]) => void;
+  isIdentifying?: boolean;
+  onResolveDomains?: (ids: string[]) => void; // DoH 解析域名条目
+  isResolving?: boolean;
+  sort?: SortState | null;
+  onSortChange?: (sort: SortState | null) => void;
+  onApplySort?: () => void;
 }
 
-export const IpList: React.FC<IpListProps> = ({ entries, setEntries }) => {
+export const IpList: React.FC<IpListProps> = ({ entries, allEntries = entries, setEntries, templates = [], workspaces = [], onTransfer, onReidentify, isIdentifying, onResolveDomains, isResolving, sort, onSortChange, onApplySort }) => {
   const [activeId, setActiveId] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const lastSelectedRef = useRef<string | null>(null);
   
   const prevLengthRef = useRef(entries.length);
 
@@ -206,6 +435,99 @@ export const IpList: React.FC<IpListProps> = ({ entries, setEntries }) => {
 
   const totalPages = Math.max(1, Math.ceil(entries.length / ITEMS_PER_PAGE));
 
+  // 条目被删除或被筛选隐藏后同步移出选择，批量操作只作用于当前可见的条目
+  useEffect(() => {
+    setSelectedIds(prev => {
+      if (prev.size === 0) return prev;
+      const visible = new Set(entries.map(e => e.id));
+      const next = new Set([...prev].filter(id => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [entries]);
+
+  const selectableEntries = useMemo(() => entries.filter(e => !e.isLocked), [entries]);
+  const selectedEntries = useMemo(() => entries.filter(e => selectedIds.has(e.id)), [entries, selectedIds]);
+  const selectablePage = paginatedEntries.filter(e => !e.isLocked);
+  const isPageSelected = selectablePage.length > 0 && selectablePage.every(e => selectedIds.has(e.id));
+
+  const handleToggleSelect = (id: string, range: boolean) => {
+    const anchor = lastSelectedRef.current;
+    const from = anchor ? entries.findIndex(e => e.id === anchor) : -1;
+    const to = entries.findIndex(e => e.id === id);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      // Shift 连续选择：以上一次点击的行为起点，按当前显示顺序选中整段
+      if (range && from >= 0 && to >= 0) {
+        entries.slice(Math.min(from, to), Math.max(from, to) + 1)
+          .forEach(e => !e.isLocked && next.add(e.id));
+      } else if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+    lastSelectedRef.current = id;
+  };
+
+  const handleTogglePage = () => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      selectablePage.forEach(e => (isPageSelected ? next.delete(e.id) : next.add(e.id)));
+      return next;
+    });
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    lastSelectedRef.current = null;
+  };
+
+  // 批量修改在完整列表上进行，锁定项始终跳过
+  const updateSelected = (update: (entry: IpEntry) => IpEntry) => {
+    setEntries(prev => prev.map(e => (selectedIds.has(e.id) && !e.isLocked ? update(e) : e)));
+  };
+
+  // 批量改端口：与其他条目 ip:端口 冲突的跳过，端口变化后旧端口的测速数据失效
+  const handleBulkSetPort = (port: string) => {
+    const targets = selectedEntries.filter(e => !e.isLocked);
+    const targetIds = new Set(targets.map(e => e.id));
+    const taken = new Set(allEntries.filter(e => !targetIds.has(e.id)).map(e => `${e.ip}:${e.port}`));
+    targets.filter(e => e.port === port).forEach(e => taken.add(`${e.ip}:${e.port}`));
+    const changedIds = new Set<string>();
+    let skipped = 0;
+    targets.filter(e => e.port !== port).forEach(e => {
+      const key = `${e.ip}:${port}`;
+      if (taken.has(key)) { skipped++; return; }
+      taken.add(key);
+      changedIds.add(e.id);
+    });
+    if (changedIds.size === 0 && skipped === 0) return;
+    setEntries(
+      prev => prev.map(e => (changedIds.has(e.id) ? { ...e, port, metrics: undefined } : e)),
+      skipped > 0 ? { notice: `已修改 ${changedIds.size} 个节点端口，${skipped} 个因 ${port} 端口已存在相同 IP 而跳过` } : undefined
+    );
+  };
+
+  const handleBulkDelete = () => {
+    const count = selectedEntries.length;
+    setEntries(prev => prev.filter(e => !selectedIds.has(e.id) || e.isLocked), { notice: `已删除 ${count} 个节点` });
+    clearSelection();
+  };
+
+  const handleBulkMove = (position: 'top' | 'bottom') => {
+    setEntries(prev => {
+      const isMoving = (e: IpEntry) => selectedIds.has(e.id) && !e.isLocked;
+      const moving = prev.filter(isMoving);
+      const rest = prev.filter(e => !isMoving(e));
+      if (position === 'bottom') return [...rest, ...moving];
+      // 置顶时保持锁定项在最前
+      const pinned = rest.findIndex(e => !e.isLocked);
+      const head = pinned < 0 ? rest.length : pinned;
+      return [...rest.slice(0, head), ...moving, ...rest.slice(head)];
+    });
+  };
+
   const sensors = useSensors(
     useSensor(PointerSensor, { 
       activationConstraint: { 
@@ -230,12 +552,17 @@ export const IpList: React.FC<IpListProps> = ({ entries, setEntries }) => {
       // 检查：不允许将其他项移动到锁定项之前（如果锁定项在第0位）
       // 或者更简单的：如果目标位置是锁定项的位置，不允许放置。
       const targetEntry = entries[newIndex];
-      if (targetEntry.isLocked) {
+      if (oldIndex < 0 || targetEntry.isLocked) {
         setActiveId(null);
         return;
       }
 
-      setEntries(arrayMove(entries, oldIndex, newIndex));
+      // entries 可能是筛选后的子集，需在完整列表中移动，避免丢失未显示的条目
+      setEntries(prev => {
+        const from = prev.findIndex(item => item.id === active.id);
+        const to = prev.findIndex(item => item.id === over.id);
+        return from < 0 || to < 0 ? prev : arrayMove(prev, from, to);
+      });
     }
     setActiveId(null);
   };
@@ -248,6 +575,54 @@ export const IpList: React.FC<IpListProps> = ({ entries, setEntries }) => {
 
   return (
     <div className="flex flex-col space-y-4 mb-20">
+      {selectedEntries.length > 0 && (
+        <BulkActionBar
+          selected={selectedEntries}
+          selectableCount={selectableEntries.length}
+          templates={templates}
+          onSelectAll={() => setSelectedIds(new Set(selectableEntries.map(e => e.id)))}
+          onClear={clearSelection}
+          onSetActive={active => updateSelected(e => ({ ...e, active }))}
+          onDelete={handleBulkDelete}
+          onSetRegion={region => updateSelected(e => ({ ...e, region, geo: undefined }))}
+          onSetPort={handleBulkSetPort}
+          onMove={handleBulkMove}
+          workspaces={workspaces}
+          onTransfer={onTransfer && ((workspaceId, mode) => {
+            onTransfer(selectedEntries.map(e => e.id), workspaceId, mode);
+            if (mode === 'move') clearSelection();
+          })}
+          onReidentify={onReidentify && (() => onReidentify(selectedEntries.map(e => e.id)))}
+          isIdentifying={isIdentifying}
+          onResolveDomains={onResolveDomains && (() => onResolveDomains(selectedEntries.map(e => e.id)))}
+          isResolving={isResolving}
+        />
+      )}
+
+      {sort && (
+        <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 bg-indigo-50/60 rounded-2xl border border-indigo-100 animate-in fade-in">
+          <span className="text-[11px] font-bold text-indigo-600">
+            当前按「{SORT_FIELD_LABELS[sort.field]}」{sort.direction === 'asc' ? '升序' : '降序'}显示，排序期间不可拖拽
+          </span>
+          <div className="flex items-center gap-2">
+            {onApplySort && (
+              <button
+                onClick={onApplySort}
+                className="px-3 py-1.5 rounded-lg text-[11px] font-black bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm transition-all active:scale-95"
+              >
+                应用为列表顺序
+              </button>
+            )}
+            <button
+              onClick={() => onSortChange?.(null)}
+              className="px-3 py-1.5 rounded-lg text-[11px] font-black text-slate-500 hover:bg-white transition-all"
+            >
+              恢复原顺序
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="bg-white rounded-[2rem] shadow-xl shadow-slate-200/40 border border-slate-200 overflow-hidden relative">
         <div className="overflow-x-auto scrollbar-hide">
           <DndContext 
@@ -261,11 +636,28 @@ export const IpList: React.FC<IpListProps> = ({ entries, setEntries }) => {
             <table className="min-w-full table-fixed border-separate border-spacing-0">
               <thead className="bg-slate-50/80 border-b border-slate-100 sticky top-0 z-10 backdrop-blur-md">
                 <tr>
-                  <th className="w-14 pl-6 pr-1 py-4"></th>
+                  <th className="w-10 pl-6 pr-1 py-4 text-center">
+                    <input
+                      type="checkbox"
+                      title="选择本页"
+                      checked={isPageSelected}
+                      disabled={selectablePage.length === 0}
+                      onChange={handleTogglePage}
+                      className="w-4 h-4 text-indigo-600 border-slate-300 rounded focus:ring-indigo-500 cursor-pointer disabled:cursor-not-allowed disabled:opacity-30"
+                    />
+                  </th>
+                  <th className="w-12 px-1 py-4"></th>
                   <th className="w-36 px-4 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">状态控制</th>
-                  <th className="px-6 py-4 text-left text-[10px] font-black text-slate-400 uppercase tracking-widest">节点地址</th>
-                  <th className="w-40 px-6 py-4 text-left text-[10px] font-black text-slate-400 uppercase tracking-widest">通信端口</th>
-                  <th className="w-48 px-6 py-4 text-left text-[10px] font-black text-slate-400 uppercase tracking-widest">物理区域</th>
+                  <SortHeader field="ip" label="节点地址" sort={sort} onSortChange={onSortChange} />
+                  <SortHeader field="port" label="通信端口" sort={sort} onSortChange={onSortChange} className="w-40" />
+                  <SortHeader field="region" label="物理区域" sort={sort} onSortChange={onSortChange} className="w-48" />
+                  <SortHeader field="asn" label="ASN" sort={sort} onSortChange={onSortChange} className="w-28" />
+                  <SortHeader field="org" label="运营商" sort={sort} onSortChange={onSortChange} className="w-44" />
+                  <SortHeader field="city" label="城市" sort={sort} onSortChange={onSortChange} className="w-32" />
+                  <th className="w-20 px-4 py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">机房</th>
+                  <SortHeader field="latency" label="延迟" sort={sort} onSortChange={onSortChange} className="w-28" />
+                  <SortHeader field="loss" label="丢包" sort={sort} onSortChange={onSortChange} className="w-24" />
+                  <SortHeader field="speed" label="速度" sort={sort} onSortChange={onSortChange} className="w-28" />
                   <th className="w-14 pr-6 pl-2 py-4"></th>
                 </tr>
               </thead>
@@ -275,8 +667,15 @@ export const IpList: React.FC<IpListProps> = ({ entries, setEntries }) => {
                     <SortableRow
                       key={entry.id}
                       entry={entry}
-                      onRemove={(id) => setEntries(prev => prev.filter(e => e.id !== id))}
-                      onUpdate={(id, f, v) => setEntries(prev => prev.map(e => e.id === id ? { ...e, [f]: v } : e))}
+                      onRemove={(id) => setEntries(prev => prev.filter(e => e.id !== id), { notice: '已删除 1 个节点' })}
+                      onUpdate={(id, f, v) => setEntries(prev => prev.map(e => e.id === id ? applyFieldEdit(e, f, v) : e), { group: f === 'active' ? undefined : `edit:${id}:${String(f)}` })}
+                      onReidentify={onReidentify}
+                      isIdentifyingAll={isIdentifying}
+                      onResolveDomains={onResolveDomains}
+                      isResolving={isResolving}
+                      isSelected={selectedIds.has(entry.id)}
+                      onToggleSelect={handleToggleSelect}
+                      dragDisabled={!!sort}
                     />
                   ))}
                 </SortableContext>
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Pause, Play, Square, X, Loader2, CheckCircle2 } from 'lucide-react';
+import { JobProgress } from '../utils/jobQueue';
+import { cn } from '../utils/cn';
+
+interface JobProgressBarProps {
+  title: string; // 例如 "地区识别"
+  progress: JobProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<JobProgress['status'], string> = {
+  running: '进行中',
+  paused: '已暂停',
+  cancelled: '已取消',
+  finished: '已完成'
+};
+
+export const JobProgressBar: React.FC<JobProgressBarProps> = ({ title, progress, onPause, onResume, onCancel, onDismiss }) => {
+  const { status, total, done, failed } = progress;
+  const remaining = Math.max(0, total - done - failed);
+  const isActive = status === 'running' || status === 'paused';
+  const percent = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+
+  return (
+    <div className="bg-white rounded-[1.5rem] border border-slate-200 shadow-xl shadow-slate-200/40 px-6 py-4 space-y-3 animate-in fade-in duration-300">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center space-x-3 text-xs font-black">
+          {status === 'running' ? (
+            <Loader2 size={14} className="text-indigo-500 animate-spin" />
+          ) : status === 'finished' ? (
+            <CheckCircle2 size={14} className="text-emerald-500" />
+          ) : (
+            <Pause size={14} className="text-amber-500" />
+          )}
+          <span className="text-slate-700">{title}{STATUS_LABELS[status]}</span>
+          <span className="text-emerald-500">成功 {done}</span>
+          <span className="text-red-400">失败 {failed}</span>
+          <span className="text-slate-400">剩余 {remaining}</span>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {status === 'running' && (
+            <button
+              onClick={onPause}
+              className="flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-[11px] font-black text-slate-500 hover:bg-slate-100 transition-all"
+            >
+              <Pause size={12} /> <span>暂停</span>
+            </button>
+          )}
+          {status === 'paused' && (
+            <button
+              onClick={onResume}
+              className="flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-[11px] font-black text-indigo-600 hover:bg-indigo-50 transition-all"
+            >
+              <Play size={12} /> <span>继续</span>
+            </button>
+          )}
+          {isActive ? (
+            <button
+              onClick={onCancel}
+              className="flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-[11px] font-black text-red-500 hover:bg-red-50 transition-all"
+            >
+              <Square size={12} /> <span>取消</span>
+            </button>
+          ) : (
+            <button
+              onClick={onDismiss}
+              className="p-1.5 rounded-lg text-slate-300 hover:text-slate-600 hover:bg-slate-100 transition-all"
+            >
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="h-2 w-full rounded-full bg-slate-100 overflow-hidden flex">
+        <div className={cn("h-full bg-emerald-400 transition-all duration-300", status === 'paused' && "opacity-50")} style={{ width: `${percent(done)}%` }} />
+        <div className={cn("h-full bg-red-300 transition-all duration-300", status === 'paused' && "opacity-50")} style={{ width: `${percent(failed)}%` }} />
+      </div>
+    </div>
+  );
+};
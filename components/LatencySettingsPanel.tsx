@@ -0,0 +1,145 @@
+import React from 'react';
+import { Timer, AlertCircle } from 'lucide-react';
+import { LatencySettings, LatencyProbeMethod } from '../types';
+import { LATENCY_METHOD_LABELS } from '../utils/latency';
+import { MAX_CONCURRENCY } from '../utils/jobQueue';
+import { cn } from '../utils/cn';
+
+interface LatencySettingsPanelProps {
+  settings: LatencySettings;
+  onSettingsChange: (settings: LatencySettings) => void;
+}
+
+const NUMBER_INPUT_CLASS = 'w-20 px-2 py-1.5 bg-white border border-slate-200 rounded-lg font-mono text-xs text-slate-700 outline-none';
+
+export const LatencySettingsPanel: React.FC<LatencySettingsPanelProps> = ({ settings, onSettingsChange }) => {
+  const update = (patch: Partial<LatencySettings>) => onSettingsChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-xl shadow-slate-200/40 p-6 space-y-5 animate-in fade-in duration-300">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-emerald-50 rounded-xl text-emerald-500 border border-emerald-100/50">
+          <Timer size={16} />
+        </div>
+        <div>
+          <h4 className="text-xs font-black text-slate-700 uppercase tracking-widest">延迟测试</h4>
+          <p className="text-[11px] text-slate-400 font-medium">对当前筛选出的节点发起 https://IP:端口 探测请求，记录最快一次的往返耗时</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">探测方式</span>
+          <div className="flex gap-2">
+            {(Object.keys(LATENCY_METHOD_LABELS) as LatencyProbeMethod[]).map(method => (
+              <button
+                key={method}
+                onClick={() => update({ method })}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-[11px] font-black transition-all border",
+                  settings.method === method
+                    ? "bg-indigo-600 text-white border-indigo-600 shadow-sm"
+                    : "bg-white text-slate-500 border-slate-200 hover:border-indigo-300"
+                )}
+              >
+                {LATENCY_METHOD_LABELS[method]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label className="space-y-2 block">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">探测路径</span>
+          <input
+            value={settings.path}
+            onChange={e => update({ path: e.target.value })}
+            placeholder="/cdn-cgi/trace"
+            className="w-full px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-mono text-xs text-slate-700 outline-none"
+          />
+          <span className="block text-[11px] text-slate-400 font-medium">
+            请求 <span className="font-mono">{settings.method === 'websocket' ? 'wss' : 'https'}://节点IP:端口{settings.path.startsWith('/') ? settings.path : `/${settings.path}`}</span>，Host 固定为节点 IP
+          </span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-5 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+        <label className="flex items-center space-x-2">
+          <span>超时</span>
+          <input
+            type="number"
+            min={200}
+            step={100}
+            value={settings.timeoutMs}
+            onChange={e => update({ timeoutMs: Math.max(200, Number(e.target.value) || 0) })}
+            className={NUMBER_INPUT_CLASS}
+          />
+          <span>ms</span>
+        </label>
+        <label className="flex items-center space-x-2" title="出错且耗时低于该值的请求多为连接被拒绝或被拦截，计为不可达">
+          <span>出错下限</span>
+          <input
+            type="number"
+            min={0}
+            step={5}
+            value={settings.errorFloorMs}
+            onChange={e => update({ errorFloorMs: Math.max(0, Number(e.target.value) || 0) })}
+            className={NUMBER_INPUT_CLASS}
+          />
+          <span>ms</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>每节点次数</span>
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={settings.attempts}
+            onChange={e => update({ attempts: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+            className={NUMBER_INPUT_CLASS}
+          />
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>并发</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_CONCURRENCY}
+            value={settings.concurrency}
+            onChange={e => update({ concurrency: Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)) })}
+            className={NUMBER_INPUT_CLASS}
+          />
+        </label>
+      </div>
+
+      <div className="p-4 rounded-2xl bg-slate-50 border border-slate-100">
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.autoDeactivate}
+              onChange={e => update({ autoDeactivate: e.target.checked })}
+              className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+            />
+            <span className="text-xs font-black text-slate-600">自动停用延迟高于</span>
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={settings.thresholdMs}
+            onChange={e => update({ thresholdMs: Math.max(1, Number(e.target.value) || 1) })}
+            className={NUMBER_INPUT_CLASS}
+          />
+          <span className="text-xs font-black text-slate-600">ms 或超时的节点</span>
+        </div>
+        <p className="text-[11px] mt-1 ml-7 text-slate-400 font-medium">停用后节点不会出现在导出结果中，可随时手动重新启用</p>
+      </div>
+
+      <div className="p-3 rounded-xl text-[11px] font-medium flex items-start bg-amber-50 text-amber-600 border border-amber-100">
+        <AlertCircle size={14} className="mr-2 mt-0.5 shrink-0" />
+        结果为 HTTPS 握手耗时的近似值。浏览器无法区分证书错误与连接被拒绝，出错的请求只有耗时不低于"出错下限"才视为可达。
+        不支持自定义 Host / SNI：浏览器禁止脚本设置 Host 头，把 IP 换成域名又会经 DNS 解析到别的地址、测到的不再是该节点；
+        需要按域名测速时请用 CloudflareST 等工具测速后导入 result.csv
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState, useMemo } from 'react';
+import { ClipboardCheck, Copy, Download, Shuffle, AlertCircle } from 'lucide-react';
+import { IpEntry } from '../types';
+import { parseBatchInput } from '../utils/parser';
+import { buildShareLinks, buildSubscription, buildClashYaml, canBuildLink, fanOutTemplate, DEFAULT_REMARK_PATTERN } from '../utils/links';
+import { downloadText } from '../utils/file';
+import { cn } from '../utils/cn';
+
+type OutputFormat = 'links' | 'subscription' | 'clash';
+
+const OUTPUT_FORMATS: { id: OutputFormat; label: string; filename: string }[] = [
+  { id: 'links', label: '分享链接', filename: 'nodes.txt' },
+  { id: 'subscription', label: 'Base64 订阅', filename: 'subscription.txt' },
+  { id: 'clash', label: 'Clash YAML', filename: 'proxies.yaml' }
+];
+
+const PREVIEW_LINES = 6;
+
+interface LinkFanoutProps {
+  entries: IpEntry[];
+}
+
+export const LinkFanout: React.FC<LinkFanoutProps> = ({ entries }) => {
+  const [templateText, setTemplateText] = useState('');
+  const [remarkPattern, setRemarkPattern] = useState(DEFAULT_REMARK_PATTERN);
+  const [format, setFormat] = useState<OutputFormat>('links');
+  const [copied, setCopied] = useState(false);
+
+  const template = useMemo(
+    () => parseBatchInput(templateText.trim()).entries.find(canBuildLink) ?? null,
+    [templateText]
+  );
+
+  const output = useMemo(() => {
+    if (!template || entries.length === 0) return '';
+    const nodes = fanOutTemplate(template, entries);
+    if (format === 'subscription') return buildSubscription(nodes, remarkPattern);
+    if (format === 'clash') return buildClashYaml(nodes, remarkPattern);
+    return buildShareLinks(nodes, remarkPattern).join('\n');
+  }, [template, entries, format, remarkPattern]);
+
+  const previewText = useMemo(() => {
+    const lines = output.split('\n');
+    return lines.length > PREVIEW_LINES ? `${lines.slice(0, PREVIEW_LINES).join('\n')}\n... 共 ${lines.length} 行` : output;
+  }, [output]);
+
+  const handleCopy = async () => {
+    if (!output) return;
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy', err);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!output) return;
+    const { filename } = OUTPUT_FORMATS.find(f => f.id === format)!;
+    downloadText(filename, output, format === 'clash' ? 'text/yaml' : 'text/plain');
+  };
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-xl shadow-slate-200/40 p-6 space-y-5">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-violet-50 rounded-xl text-violet-500 border border-violet-100/50">
+          <Shuffle size={16} />
+        </div>
+        <div>
+          <h4 className="text-xs font-black text-slate-700 uppercase tracking-widest">模板链接批量生成</h4>
+          <p className="text-[11px] text-slate-400 font-medium">粘贴一条可用的分享链接，为当前筛选的 {entries.length} 个节点逐个替换地址与端口</p>
+        </div>
+      </div>
+
+      <textarea
+        value={templateText}
+        onChange={e => setTemplateText(e.target.value)}
+        className="w-full h-20 px-4 py-3 bg-slate-50/50 border border-slate-200 rounded-2xl font-mono text-xs text-slate-700 resize-none outline-none"
+        placeholder="vless://uuid@your.domain.com:443?security=tls&type=ws&path=%2F#name"
+      />
+
+      {templateText.trim() && !template && (
+        <div className="p-3 rounded-xl text-xs font-bold flex items-center bg-red-50 text-red-600 border border-red-100">
+          <AlertCircle size={14} className="mr-2" />
+          无法识别模板链接，请确认包含协议、凭据与地址
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex items-center gap-2 flex-1">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest whitespace-nowrap">备注格式</label>
+          <input
+            value={remarkPattern}
+            onChange={e => setRemarkPattern(e.target.value)}
+            placeholder={DEFAULT_REMARK_PATTERN}
+            className="w-full px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-mono text-xs text-slate-700 outline-none"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {OUTPUT_FORMATS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setFormat(option.id)}
+              className={cn(
+                "px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all border",
+                format === option.id
+                  ? "bg-violet-600 text-white border-violet-600 shadow-sm"
+                  : "bg-white text-slate-500 border-slate-200 hover:border-violet-300"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {output && (
+        <>
+          <pre className="w-full max-h-48 overflow-auto px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl font-mono text-[11px] text-slate-600 whitespace-pre-wrap break-all">
+            {previewText}
+          </pre>
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={handleDownload}
+              className="flex items-center space-x-2 px-5 py-2.5 rounded-xl text-xs font-black text-slate-600 bg-slate-100 hover:bg-slate-200 transition-all active:scale-95"
+            >
+              <Download size={14} /> <span>下载</span>
+            </button>
+            <button
+              onClick={handleCopy}
+              className="flex items-center space-x-2 px-5 py-2.5 rounded-xl text-xs font-black bg-violet-600 text-white hover:bg-violet-700 shadow-lg shadow-violet-200 transition-all active:scale-95"
+            >
+              {copied ? <ClipboardCheck size={14} /> : <Copy size={14} />}
+              <span>{copied ? "复制成功" : "复制全部"}</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
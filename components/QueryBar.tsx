@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Search, X, HelpCircle, AlertCircle } from 'lucide-react';
+import { QUERY_FIELDS } from '../utils/query';
+import { cn } from '../utils/cn';
+
+interface QueryBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: string[];
+  matchCount: number;
+}
+
+export const QueryBar: React.FC<QueryBarProps> = ({ value, onChange, errors, matchCount }) => {
+  const [showHelp, setShowHelp] = useState(false);
+
+  const appendExample = (example: string) => {
+    onChange(value.trim() ? `${value.trim()} ${example}` : example);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className={cn(
+        "flex items-center gap-3 px-4 py-2.5 bg-slate-50 rounded-xl border transition-colors",
+        errors.length > 0 ? "border-red-200" : "border-slate-200 focus-within:border-indigo-300"
+      )}>
+        <Search size={14} className="text-slate-400 shrink-0" />
+        <input
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          placeholder="搜索 IP / 地区 / 备注，或使用 port:443 region:HK,JP ip:104.16.0.0/13 -region:US active:false"
+          className="flex-1 bg-transparent border-none p-0 text-xs font-mono text-slate-700 outline-none placeholder:text-slate-300 placeholder:font-sans"
+        />
+        {value && (
+          <>
+            <span className="text-[10px] font-black text-slate-400 whitespace-nowrap">{matchCount} 条匹配</span>
+            <button onClick={() => onChange('')} title="清空搜索" className="text-slate-300 hover:text-slate-600 transition-colors">
+              <X size={14} />
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => setShowHelp(prev => !prev)}
+          title="搜索语法"
+          className={cn("transition-colors", showHelp ? "text-indigo-500" : "text-slate-300 hover:text-indigo-500")}
+        >
+          <HelpCircle size={14} />
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="flex items-center px-2 text-[11px] font-bold text-red-500">
+          <AlertCircle size={12} className="mr-1.5 shrink-0" />
+          {errors.join('；')}
+        </div>
+      )}
+
+      {showHelp && (
+        <div className="p-3 rounded-xl bg-white border border-slate-100 space-y-2 animate-in fade-in">
+          <p className="text-[11px] text-slate-400 font-medium">
+            多个条件之间为"且"，逗号分隔的多个值为"或"，条件前加 - 表示排除；数值字段支持 &lt; &lt;= &gt; &gt;= 与 100-300 区间
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {QUERY_FIELDS.map(({ field, example }) => (
+              <button
+                key={field}
+                onClick={() => appendExample(example)}
+                className="px-2 py-1 rounded-md bg-slate-50 border border-slate-100 font-mono text-[10px] text-slate-500 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
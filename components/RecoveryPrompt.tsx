@@ -0,0 +1,58 @@
+import React from 'react';
+import { AlertTriangle, Download, Check, RotateCcw } from 'lucide-react';
+import { LoadResult } from '../utils/storage';
+
+interface RecoveryPromptProps {
+  result: LoadResult;
+  onDownloadBackup: () => void;
+  onAccept: () => void;
+  onReset: () => void;
+}
+
+export const RecoveryPrompt: React.FC<RecoveryPromptProps> = ({ result, onDownloadBackup, onAccept, onReset }) => {
+  const isFailed = result.status === 'failed';
+
+  return (
+    <div className="p-6 bg-amber-50 rounded-[1.5rem] border border-amber-200 shadow-lg shadow-amber-100/40 space-y-4 animate-in fade-in">
+      <div className="flex items-start space-x-3">
+        <AlertTriangle size={20} className="text-amber-500 shrink-0 mt-0.5" />
+        <div className="space-y-1">
+          <h3 className="text-sm font-black text-amber-800">
+            {isFailed ? '已保存的数据无法读取' : '已保存的数据部分损坏'}
+          </h3>
+          <ul className="text-xs font-medium text-amber-700 space-y-0.5">
+            {result.problems.map(problem => <li key={problem}>· {problem}</li>)}
+          </ul>
+          <p className="text-[11px] text-amber-600/80">
+            原始数据已备份，在你做出选择之前不会覆盖存储。建议先下载备份再继续。
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 pl-8">
+        {result.backup !== undefined && (
+          <button
+            onClick={onDownloadBackup}
+            className="flex items-center space-x-1.5 px-4 py-2 rounded-xl text-xs font-black bg-white border border-amber-200 text-amber-700 hover:border-amber-400 transition-all active:scale-95"
+          >
+            <Download size={14} /> <span>下载原始数据备份</span>
+          </button>
+        )}
+        {!isFailed && (
+          <button
+            onClick={onAccept}
+            className="flex items-center space-x-1.5 px-4 py-2 rounded-xl text-xs font-black bg-amber-500 text-white hover:bg-amber-600 shadow-sm transition-all active:scale-95"
+          >
+            <Check size={14} /> <span>使用已恢复的数据</span>
+          </button>
+        )}
+        <button
+          onClick={onReset}
+          className="flex items-center space-x-1.5 px-4 py-2 rounded-xl text-xs font-black text-amber-700 hover:bg-amber-100 transition-all active:scale-95"
+        >
+          <RotateCcw size={14} /> <span>{isFailed ? '从空列表开始' : '放弃并清空'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
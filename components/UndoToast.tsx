@@ -0,0 +1,34 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+const AUTO_DISMISS_MS = 6000;
+
+interface UndoToastProps {
+  message: string;
+  onUndo?: () => void; // 缺省时作为普通提示，不显示撤销按钮
+  onDismiss: () => void;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, AUTO_DISMISS_MS);
+    return () => window.clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-4 pl-5 pr-2 py-2 bg-slate-900 text-white rounded-2xl shadow-2xl animate-in fade-in slide-in-from-bottom-2">
+      <span className="text-xs font-bold">{message}</span>
+      {onUndo && (
+        <button
+          onClick={() => { onUndo(); onDismiss(); }}
+          className="flex items-center space-x-1.5 px-3 py-1.5 rounded-lg text-[11px] font-black text-indigo-300 hover:bg-white/10 transition-all"
+        >
+          <Undo2 size={12} /> <span>撤销</span>
+        </button>
+      )}
+      <button onClick={onDismiss} className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-all">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
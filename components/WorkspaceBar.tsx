@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Plus, Pencil, Copy, Trash2, Check, X, Layers } from 'lucide-react';
+import { cn } from '../utils/cn';
+
+export interface WorkspaceTab {
+  id: string;
+  name: string;
+  count: number; // 不含锁定条目的节点数
+}
+
+interface WorkspaceBarProps {
+  workspaces: WorkspaceTab[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const WorkspaceBar: React.FC<WorkspaceBarProps> = ({
+  workspaces, activeId, onSwitch, onCreate, onRename, onDuplicate, onDelete
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  const startRename = (tab: WorkspaceTab) => {
+    setRenamingId(tab.id);
+    setNameDraft(tab.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && nameDraft.trim()) onRename(renamingId, nameDraft.trim());
+    setRenamingId(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirmingDeleteId !== id) {
+      setConfirmingDeleteId(id);
+      setTimeout(() => setConfirmingDeleteId(prev => (prev === id ? null : prev)), 3000);
+      return;
+    }
+    setConfirmingDeleteId(null);
+    onDelete(id);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Layers size={14} className="text-slate-300 mr-1" />
+      {workspaces.map(tab => {
+        const isActive = tab.id === activeId;
+        if (renamingId === tab.id) {
+          return (
+            <div key={tab.id} className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-xl bg-white border border-indigo-300 shadow-sm">
+              <input
+                autoFocus
+                value={nameDraft}
+                onChange={e => setNameDraft(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                className="w-32 bg-transparent border-none p-0 text-xs font-bold text-slate-700 outline-none"
+              />
+              <button onClick={commitRename} className="p-1 rounded-lg text-emerald-500 hover:bg-emerald-50"><Check size={12} /></button>
+              <button onClick={() => setRenamingId(null)} className="p-1 rounded-lg text-slate-400 hover:bg-slate-100"><X size={12} /></button>
+            </div>
+          );
+        }
+
+        return (
+          <div
+            key={tab.id}
+            className={cn(
+              "group flex items-center rounded-xl border transition-all",
+              isActive ? "bg-slate-900 border-slate-900 text-white shadow-md" : "bg-white border-slate-200 text-slate-500 hover:border-indigo-300"
+            )}
+          >
+            <button
+              onClick={() => onSwitch(tab.id)}
+              onDoubleClick={() => startRename(tab)}
+              className="flex items-center space-x-2 pl-3 pr-2 py-1.5 text-xs font-bold"
+            >
+              <span className="max-w-[10rem] truncate">{tab.name}</span>
+              <span className={cn("text-[10px] font-black", isActive ? "text-slate-400" : "text-slate-300")}>{tab.count}</span>
+            </button>
+            {isActive && (
+              <div className="flex items-center pr-1">
+                <button onClick={() => startRename(tab)} title="重命名" className="p-1 rounded-lg text-slate-400 hover:text-white hover:bg-white/10">
+                  <Pencil size={11} />
+                </button>
+                <button onClick={() => onDuplicate(tab.id)} title="复制列表" className="p-1 rounded-lg text-slate-400 hover:text-white hover:bg-white/10">
+                  <Copy size={11} />
+                </button>
+                {workspaces.length > 1 && (
+                  <button
+                    onClick={() => handleDelete(tab.id)}
+                    title={confirmingDeleteId === tab.id ? '再次点击确认删除' : '删除列表'}
+                    className={cn(
+                      "p-1 rounded-lg transition-all",
+                      confirmingDeleteId === tab.id ? "bg-red-500 text-white animate-pulse" : "text-slate-400 hover:text-red-400 hover:bg-white/10"
+                    )}
+                  >
+                    <Trash2 size={11} />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={onCreate}
+        title="新建列表"
+        className="flex items-center space-x-1 px-3 py-1.5 rounded-xl border border-dashed border-slate-300 text-xs font-bold text-slate-400 hover:text-indigo-600 hover:border-indigo-300 transition-all"
+      >
+        <Plus size={12} /> <span>新建列表</span>
+      </button>
+    </div>
+  );
+};
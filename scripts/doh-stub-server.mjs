@@ -0,0 +1,154 @@
+/**
+ * 本地 DoH 替身服务：用固定记录响应 JSON（?name=&type=）与 RFC 8484 wireformat（GET ?dns= / POST）查询，
+ * 允许跨域，便于在不访问公共 DoH 的情况下调试与测试域名解析。
+ *
+ * 命令行：node scripts/doh-stub-server.mjs [--port 8053] [--records records.json]
+ *   records.json 形如 { "example.com": { "A": ["192.0.2.1"], "AAAA": ["2001:db8::1"] } }
+ *   名称以 "servfail." 开头时返回 SERVFAIL，未配置的名称返回 NXDOMAIN
+ *
+ * 测试中：
+ *   import { createDohStubServer } from './scripts/doh-stub-server.mjs';
+ *   const server = createDohStubServer({ 'example.com': { A: ['192.0.2.1'] } });
+ *   server.listen(0, () => { const endpoint = `http://127.0.0.1:${server.address().port}/dns-query`; ... });
+ */
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+
+export const DEFAULT_RECORDS = {
+  'example.com': { A: ['192.0.2.10', '192.0.2.11'], AAAA: ['2001:db8::10'] },
+  'ipv4.example.com': { A: ['198.51.100.7'] },
+  'ipv6.example.com': { AAAA: ['2001:db8:0:1::7'] }
+};
+
+const TYPE_CODES = { A: 1, AAAA: 28 };
+const TYPE_NAMES = { 1: 'A', 28: 'AAAA' };
+const RCODE = { NOERROR: 0, SERVFAIL: 2, NXDOMAIN: 3 };
+
+const normalize = name => name.toLowerCase().replace(/\.$/, '');
+
+const lookup = (records, name, type) => {
+  const key = normalize(name);
+  if (key.startsWith('servfail.')) return { rcode: RCODE.SERVFAIL, addresses: [] };
+  const record = records[key];
+  if (!record) return { rcode: RCODE.NXDOMAIN, addresses: [] };
+  return { rcode: RCODE.NOERROR, addresses: record[type] || [] };
+};
+
+const ipv4Bytes = ip => ip.split('.').map(Number);
+
+const ipv6Bytes = ip => {
+  const [head, tail = ''] = ip.split('::');
+  const groups = s => (s ? s.split(':').map(g => parseInt(g, 16)) : []);
+  const h = groups(head);
+  const t = groups(tail);
+  const all = ip.includes('::') ? [...h, ...Array(8 - h.length - t.length).fill(0), ...t] : h;
+  return all.flatMap(g => [g >> 8, g & 0xff]);
+};
+
+// 查询报文中的域名不应使用压缩指针；越界、压缩指针或超过 63 字节的标签都视为无效报文
+const readName = (buf, offset) => {
+  const labels = [];
+  for (;;) {
+    if (offset >= buf.length) throw new Error('truncated name');
+    const length = buf[offset];
+    if (length === 0) break;
+    if (length > 63) throw new Error('invalid label');
+    if (offset + 1 + length > buf.length) throw new Error('truncated label');
+    labels.push(buf.subarray(offset + 1, offset + 1 + length).toString('ascii'));
+    offset += length + 1;
+  }
+  return { name: labels.join('.'), next: offset + 1 };
+};
+
+const buildWireResponse = (query, records) => {
+  if (query.length < 12) throw new Error('truncated header');
+  const { name, next } = readName(query, 12);
+  if (next + 4 > query.length) throw new Error('truncated question');
+  const type = TYPE_NAMES[query.readUInt16BE(next)];
+  const question = query.subarray(12, next + 4);
+  const { rcode, addresses } = type ? lookup(records, name, type) : { rcode: RCODE.NOERROR, addresses: [] };
+
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(query.readUInt16BE(0), 0);
+  header.writeUInt16BE(0x8180 | rcode, 2); // QR、RD、RA
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(addresses.length, 6);
+
+  const answers = addresses.map(address => {
+    const rdata = type === 'A' ? ipv4Bytes(address) : ipv6Bytes(address);
+    const record = Buffer.alloc(12 + rdata.length);
+    record.writeUInt16BE(0xc00c, 0); // 指向问题中的域名
+    record.writeUInt16BE(TYPE_CODES[type], 2);
+    record.writeUInt16BE(1, 4);
+    record.writeUInt32BE(60, 6);
+    record.writeUInt16BE(rdata.length, 10);
+    Buffer.from(rdata).copy(record, 12);
+    return record;
+  });
+  return Buffer.concat([header, question, ...answers]);
+};
+
+const buildJsonResponse = (name, typeParam, records) => {
+  const type = TYPE_NAMES[Number(typeParam)] || String(typeParam || 'A').toUpperCase();
+  const { rcode, addresses } = TYPE_CODES[type] ? lookup(records, name, type) : { rcode: RCODE.NOERROR, addresses: [] };
+  return {
+    Status: rcode,
+    Question: [{ name, type: TYPE_CODES[type] ?? 0 }],
+    Answer: addresses.map(data => ({ name, type: TYPE_CODES[type], TTL: 60, data }))
+  };
+};
+
+const fromBase64Url = text => Buffer.from(text.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+
+export const createDohStubServer = (records = DEFAULT_RECORDS) =>
+  createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'accept, content-type');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    const sendWire = query => {
+      let body;
+      try {
+        body = buildWireResponse(query, records);
+      } catch {
+        res.writeHead(400).end('invalid dns message');
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/dns-message' }).end(body);
+    };
+
+    if (req.method === 'POST') {
+      const chunks = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => sendWire(Buffer.concat(chunks)));
+      return;
+    }
+    if (url.searchParams.has('dns')) {
+      sendWire(fromBase64Url(url.searchParams.get('dns')));
+      return;
+    }
+    if (url.searchParams.has('name')) {
+      const body = buildJsonResponse(url.searchParams.get('name'), url.searchParams.get('type'), records);
+      res.writeHead(200, { 'content-type': 'application/dns-json' }).end(JSON.stringify(body));
+      return;
+    }
+    res.writeHead(400).end('missing name or dns parameter');
+  });
+
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  const arg = flag => {
+    const index = process.argv.indexOf(flag);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+  };
+  const port = Number(arg('--port') || 8053);
+  const recordsPath = arg('--records');
+  const records = recordsPath ? JSON.parse(readFileSync(recordsPath, 'utf8')) : DEFAULT_RECORDS;
+  createDohStubServer(records).listen(port, '127.0.0.1', () => {
+    console.log(`DoH stub server: http://127.0.0.1:${port}/dns-query`);
+  });
+}
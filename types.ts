@@ -5,6 +5,125 @@ export interface IpEntry {
   region: string;
   active: boolean;
   isLocked?: boolean; // 新增：是否为锁定项
+
+  // 以下字段仅在从分享链接导入时存在，用于还原完整节点
+  protocol?: string; // trojan / vless / vmess / ss ...
+  auth?: string; // userinfo 部分：UUID、密码或 method:password（已解码）
+  path?: string; // 端口之后、查询参数之前的路径
+  params?: Record<string, string>; // 查询参数：sni、type、security、host 等
+  remark?: string; // 原始备注（# 之后的完整内容，已解码）
+
+  geo?: GeoDetails; // 识别时获取的网络信息
+  metrics?: NodeMetrics; // 最近一次测速结果
+}
+
+export interface NodeMetrics {
+  latency?: number; // 往返延迟（毫秒），超时时为空
+  timedOut?: boolean;
+  checkedAt?: number; // 测试时间戳
+  loss?: number; // 丢包率 0~1，来自测速工具结果
+  speed?: number; // 下载速度 MB/s
+  colo?: string; // Cloudflare 数据中心代码，例如 HKG
+}
+
+export interface GeoDetails {
+  asn?: number; // 例如 13335
+  org?: string; // ISP / 组织名称
+  city?: string;
+  hosting?: boolean; // 是否为数据中心 / 托管 IP
+}
+
+export type SortField = 'ip' | 'port' | 'region' | 'asn' | 'org' | 'city' | 'latency' | 'loss' | 'speed';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortState {
+  field: SortField;
+  direction: SortDirection;
+}
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  pattern: string; // 例如 "{host}:{port}#{region}-{index}"
+  separator: string; // 条目之间的分隔符，例如 "," 或 "\n"
+}
+
+export interface GeoProvider {
+  id: string;
+  name: string;
+  url: string; // 请求地址，{ip} 会被替换为待查询 IP
+  countryPath: string; // 响应 JSON 中国家代码的路径，例如 "data.country_code"
+  asnPath?: string; // 以下路径可选，留空表示该源不提供
+  orgPath?: string;
+  cityPath?: string;
+  hostingPath?: string;
+  enabled: boolean;
+  timeoutMs: number;
+  rateLimit: number; // 每分钟最多请求次数，0 表示不限制
+  builtin?: boolean; // 内置源不可删除
+}
+
+export interface GeoSettings {
+  onlineFallback: boolean; // 离线库未命中时是否继续查询在线 API
+  cacheTtlDays: number; // 识别结果缓存有效天数，0 表示永不过期
+  providers: GeoProvider[]; // 按顺序依次尝试的在线 API
+  concurrency: number; // 同时识别的 IP 数量
 }
 
-export type SortField = 'ip' | 'port' | 'region';
\ No newline at end of file
+export type LatencyProbeMethod = 'fetch' | 'image' | 'websocket';
+
+export interface LatencySettings {
+  method: LatencyProbeMethod;
+  path: string; // 探测路径，例如 "/cdn-cgi/trace"
+  timeoutMs: number;
+  attempts: number; // 每个节点测试次数，取最小值
+  errorFloorMs: number; // 请求出错且耗时低于该值时视为不可达（连接被拒绝、请求被拦截）
+  concurrency: number;
+  autoDeactivate: boolean; // 超过阈值或超时的节点自动停用
+  thresholdMs: number;
+}
+
+export type DohFormat = 'json' | 'wire';
+
+export interface DnsSettings {
+  endpoint: string; // DoH 地址，例如 https://cloudflare-dns.com/dns-query
+  format: DohFormat; // json：application/dns-json；wire：RFC 8484 application/dns-message
+  timeoutMs: number;
+  includeIpv6: boolean; // 同时查询 AAAA 记录
+  replaceDomain: boolean; // 解析后用 IP 条目替换原域名条目，否则保留域名并追加 IP 条目
+}
+
+export type CidrImportMode = 'expand' | 'sample';
+
+export interface CidrImportOptions {
+  mode: CidrImportMode; // expand：完整展开（受上限保护）；sample：每个网段随机抽取 sampleSize 个地址
+  sampleSize: number;
+  defaultPort: string; // 网段未写端口时使用
+}
+
+export type ImportRuleKind = 'port' | 'cidr' | 'region' | 'ipVersion';
+
+/**
+ * 导入策略规则：deny 命中即拒绝；allow 表示"仅允许"，未命中即拒绝
+ */
+export interface ImportRule {
+  id: string;
+  kind: ImportRuleKind;
+  action: 'allow' | 'deny';
+  value: string; // 逗号分隔：端口与区间 "443,8000-9000"、CIDR / IP、地区代码；IP 版本为 "4" 或 "6"
+  enabled: boolean;
+}
+
+export interface ImportPolicy {
+  rules: ImportRule[]; // 按顺序检查，记录第一条拒绝该条目的规则
+}
+
+export type ImportPosition = 'top' | 'bottom';
+
+export interface ImportOptions {
+  position?: ImportPosition; // 默认插入到顶部（锁定条目之后）
+  regionUpdates?: Record<string, string>; // 重复条目选择"覆盖地区"时，按现有条目 id 写入导入的地区
+  metricsUpdates?: Record<string, NodeMetrics>; // 重复条目带有测速数据（如重新导入 result.csv）时，按现有条目 id 写入
+}
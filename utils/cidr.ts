@@ -0,0 +1,82 @@
+import { CidrImportMode, CidrImportOptions } from '../types';
+import { IpRange, formatIpv4, formatIpv6 } from './ip';
+
+/**
+ * CIDR 网段导入：104.16.0.0/13、172.64.0.0/24:443、[2606:4700::]/120:443 等写法
+ * 完整展开时超过上限的网段整体拒绝，避免一次生成海量条目；随机抽样按网段分别抽取且不重复
+ * 单次导入中所有网段生成的地址合计不超过 CIDR_TOTAL_LIMIT，超出部分截断并报告
+ */
+export const CIDR_EXPAND_LIMIT = 4096;
+export const CIDR_SAMPLE_LIMIT = 1000;
+export const CIDR_TOTAL_LIMIT = 20000;
+
+export const DEFAULT_CIDR_OPTIONS: CidrImportOptions = {
+  mode: 'sample',
+  sampleSize: 10,
+  defaultPort: '443'
+};
+
+export const CIDR_MODE_LABELS: Record<CidrImportMode, string> = {
+  expand: '完整展开',
+  sample: '随机抽样'
+};
+
+export const getRangeSize = (range: IpRange): bigint => range.end - range.start + 1n;
+
+const formatRangeAddress = (range: IpRange, value: bigint): string =>
+  range.version === 4 ? formatIpv4(Number(value)) : formatIpv6(value);
+
+// [0, size) 内的随机数，多取 32 位再取模，偏差可以忽略
+const randomBelow = (size: bigint): bigint => {
+  let value = 0n;
+  let span = 1n;
+  while (span < size << 32n) {
+    value = (value << 32n) | BigInt(Math.floor(Math.random() * 2 ** 32));
+    span <<= 32n;
+  }
+  return value % size;
+};
+
+/**
+ * 超过完整展开上限时返回原因，否则返回 null
+ */
+export const checkExpandLimit = (range: IpRange): string | null => {
+  const size = getRangeSize(range);
+  return size > BigInt(CIDR_EXPAND_LIMIT)
+    ? `网段共 ${size.toLocaleString()} 个地址，超过完整展开上限 ${CIDR_EXPAND_LIMIT}，请改用随机抽样`
+    : null;
+};
+
+/**
+ * 网段按选项应生成的地址数
+ */
+export const countRangeAddresses = (range: IpRange, options: CidrImportOptions): number => {
+  const size = getRangeSize(range);
+  const limit = BigInt(options.mode === 'expand' ? CIDR_EXPAND_LIMIT : Math.min(Math.max(1, Math.floor(options.sampleSize)), CIDR_SAMPLE_LIMIT));
+  return Number(size < limit ? size : limit);
+};
+
+/**
+ * 按选项取出网段中的地址（从小到大排列）；抽样数量不小于网段大小时等同完整展开
+ * limit 为本网段还能生成的地址数，受单次导入的总上限约束
+ */
+export const pickRangeAddresses = (range: IpRange, options: CidrImportOptions, limit = CIDR_TOTAL_LIMIT): string[] => {
+  const size = getRangeSize(range);
+  const count = BigInt(Math.min(countRangeAddresses(range, options), limit));
+
+  let offsets: bigint[];
+  if (options.mode === 'expand' || count >= size) {
+    offsets = Array.from({ length: Number(count) }, (_, i) => BigInt(i));
+  } else {
+    const picked = new Set<bigint>();
+    while (BigInt(picked.size) < count) picked.add(randomBelow(size));
+    offsets = Array.from(picked).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+  return offsets.map(offset => formatRangeAddress(range, range.start + offset));
+};
+
+/**
+ * 粗略判断文本中是否包含网段写法，用于决定是否显示网段导入选项
+ */
+export const containsCidr = (text: string): boolean =>
+  /(?<![\w.:])(?:(?:\d{1,3}\.){3}\d{1,3}|\[?[a-fA-F0-9]*:[a-fA-F0-9.]*:[a-fA-F0-9:.]*\]?)\/\d{1,3}(?![\w.\/])/.test(text);
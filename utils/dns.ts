@@ -0,0 +1,220 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IpEntry, DnsSettings, DohFormat } from '../types';
+import { formatIpv4, formatIpv6 } from './ip';
+import { pinDomainParams } from './links';
+
+/**
+ * 浏览器内通过 DNS-over-HTTPS 把域名解析为 A / AAAA 记录：
+ * - json：GET ?name=&type=，Accept: application/dns-json（Cloudflare、Google 等支持）
+ * - wire：RFC 8484，GET ?dns=base64url(DNS 报文)，Accept: application/dns-message
+ * DoH 服务必须允许跨域请求；本地调试可使用 scripts/doh-stub-server.mjs
+ */
+export const DEFAULT_DNS_SETTINGS: DnsSettings = {
+  endpoint: 'https://cloudflare-dns.com/dns-query',
+  format: 'json',
+  timeoutMs: 5000,
+  includeIpv6: true,
+  replaceDomain: false
+};
+
+export const DOH_FORMAT_LABELS: Record<DohFormat, string> = {
+  json: 'JSON',
+  wire: 'Wireformat'
+};
+
+export const DOH_PRESETS: { label: string; endpoint: string; format: DohFormat }[] = [
+  { label: 'Cloudflare', endpoint: 'https://cloudflare-dns.com/dns-query', format: 'json' },
+  { label: 'Google', endpoint: 'https://dns.google/resolve', format: 'json' },
+  { label: 'Google (RFC 8484)', endpoint: 'https://dns.google/dns-query', format: 'wire' },
+  { label: 'AliDNS (RFC 8484)', endpoint: 'https://dns.alidns.com/dns-query', format: 'wire' },
+  { label: '本地测试服务', endpoint: 'http://127.0.0.1:8053/dns-query', format: 'json' }
+];
+
+export type DnsRecordType = 'A' | 'AAAA';
+
+const RECORD_TYPE_CODES: Record<DnsRecordType, number> = { A: 1, AAAA: 28 };
+
+const RCODE_MESSAGES: Record<number, string> = {
+  2: 'DNS 服务器错误 (SERVFAIL)',
+  3: '域名不存在 (NXDOMAIN)',
+  5: 'DNS 服务器拒绝查询 (REFUSED)'
+};
+
+const rcodeError = (rcode: number) => new Error(RCODE_MESSAGES[rcode] ?? `DNS 查询失败 (RCODE ${rcode})`);
+
+export const validateDohEndpoint = (endpoint: string): string | null => {
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? null : 'DoH 地址必须以 http:// 或 https:// 开头';
+  } catch {
+    return 'DoH 地址不是有效的 URL';
+  }
+};
+
+/**
+ * 构造 DNS 查询报文：ID 固定为 0（RFC 8484 建议，便于 HTTP 缓存），RD=1，一个问题
+ */
+export const encodeDnsQuery = (name: string, type: DnsRecordType): Uint8Array => {
+  const bytes = [0, 0, 0x01, 0x00, 0, 1, 0, 0, 0, 0, 0, 0];
+  name.replace(/\.$/, '').split('.').forEach(label => {
+    bytes.push(label.length, ...Array.from(label, c => c.charCodeAt(0)));
+  });
+  const code = RECORD_TYPE_CODES[type];
+  bytes.push(0, code >> 8, code & 0xff, 0, 1);
+  return Uint8Array.from(bytes);
+};
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// 跳过报文中的域名（可能为压缩指针）
+const skipName = (view: DataView, offset: number): number => {
+  for (;;) {
+    const length = view.getUint8(offset);
+    if (length === 0) return offset + 1;
+    if ((length & 0xc0) === 0xc0) return offset + 2;
+    offset += length + 1;
+  }
+};
+
+/**
+ * 解析 DNS 响应报文，只提取指定类型的地址记录（CNAME 等其他记录忽略）
+ */
+export const decodeDnsResponse = (buffer: ArrayBuffer, type: DnsRecordType): string[] => {
+  const view = new DataView(buffer);
+  try {
+    const rcode = view.getUint16(2) & 0x0f;
+    if (rcode !== 0) throw rcodeError(rcode);
+
+    const questions = view.getUint16(4);
+    const answers = view.getUint16(6);
+    let offset = 12;
+    for (let i = 0; i < questions; i++) offset = skipName(view, offset) + 4;
+
+    const addresses: string[] = [];
+    for (let i = 0; i < answers; i++) {
+      offset = skipName(view, offset);
+      const recordType = view.getUint16(offset);
+      const length = view.getUint16(offset + 8);
+      offset += 10;
+      if (recordType === RECORD_TYPE_CODES[type]) {
+        if (type === 'A' && length === 4) addresses.push(formatIpv4(view.getUint32(offset)));
+        if (type === 'AAAA' && length === 16) {
+          let value = 0n;
+          for (let j = 0; j < 16; j++) value = (value << 8n) | BigInt(view.getUint8(offset + j));
+          addresses.push(formatIpv6(value));
+        }
+      }
+      offset += length;
+    }
+    return addresses;
+  } catch (e) {
+    if (e instanceof RangeError) throw new Error('DoH 响应不是有效的 DNS 报文');
+    throw e;
+  }
+};
+
+const queryJson = async (name: string, type: DnsRecordType, settings: DnsSettings, signal: AbortSignal): Promise<string[]> => {
+  const url = new URL(settings.endpoint);
+  url.searchParams.set('name', name);
+  url.searchParams.set('type', type);
+  const response = await fetch(url.toString(), { headers: { accept: 'application/dns-json' }, signal });
+  if (!response.ok) throw new Error(`DoH 服务返回 HTTP ${response.status}`);
+
+  let doc: any;
+  try {
+    doc = await response.json();
+  } catch {
+    throw new Error('DoH 响应不是有效的 JSON');
+  }
+  if (typeof doc?.Status === 'number' && doc.Status !== 0) throw rcodeError(doc.Status);
+  return (Array.isArray(doc?.Answer) ? doc.Answer : [])
+    .filter((answer: any) => answer?.type === RECORD_TYPE_CODES[type] && typeof answer.data === 'string')
+    .map((answer: any) => answer.data as string);
+};
+
+const queryWire = async (name: string, type: DnsRecordType, settings: DnsSettings, signal: AbortSignal): Promise<string[]> => {
+  const url = new URL(settings.endpoint);
+  url.searchParams.set('dns', toBase64Url(encodeDnsQuery(name, type)));
+  const response = await fetch(url.toString(), { headers: { accept: 'application/dns-message' }, signal });
+  if (!response.ok) throw new Error(`DoH 服务返回 HTTP ${response.status}`);
+  return decodeDnsResponse(await response.arrayBuffer(), type);
+};
+
+const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+/**
+ * 查询单个记录类型，超时抛出"DNS 查询超时"，外部 signal 中止时抛出 AbortError
+ */
+export const queryDoh = async (name: string, type: DnsRecordType, settings: DnsSettings, signal?: AbortSignal): Promise<string[]> => {
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), settings.timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const query = settings.format === 'wire' ? queryWire : queryJson;
+    return await query(name, type, settings, controller.signal);
+  } catch (e) {
+    if (isAbortError(e)) {
+      if (signal?.aborted) throw e;
+      throw new Error('DNS 查询超时');
+    }
+    if (e instanceof TypeError) throw new Error('无法访问 DoH 服务（网络错误或不允许跨域）');
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * 解析域名的 A（及可选 AAAA）记录；任一类型成功即返回，全部失败时抛出第一个错误
+ */
+export const resolveDomain = async (name: string, settings: DnsSettings, signal?: AbortSignal): Promise<string[]> => {
+  const types: DnsRecordType[] = settings.includeIpv6 ? ['A', 'AAAA'] : ['A'];
+  const results = await Promise.allSettled(types.map(type => queryDoh(name, type, settings, signal)));
+
+  const aborted = results.find(r => r.status === 'rejected' && isAbortError(r.reason));
+  if (aborted) throw (aborted as PromiseRejectedResult).reason;
+
+  const fulfilled = results.filter((r): r is PromiseFulfilledResult<string[]> => r.status === 'fulfilled');
+  if (fulfilled.length === 0) throw (results[0] as PromiseRejectedResult).reason;
+  return Array.from(new Set(fulfilled.flatMap(r => r.value)));
+};
+
+/**
+ * 用解析结果展开域名条目：新条目沿用原条目的端口、地区与链接参数（域名补入 SNI / Host），已存在的 ip:port 跳过
+ * replace 为 true 时移除原域名条目，新条目占据其位置
+ */
+export const expandDomainEntries = (
+  entries: IpEntry[],
+  ids: Set<string>,
+  resolved: Map<string, string[]>,
+  replace: boolean
+): { entries: IpEntry[]; added: number; replaced: number } => {
+  const existing = new Set(entries.map(e => `${e.ip}:${e.port}`));
+  let added = 0;
+  let replaced = 0;
+
+  const next = entries.flatMap(entry => {
+    const addresses = ids.has(entry.id) && !entry.isLocked ? resolved.get(entry.ip) : undefined;
+    if (!addresses || addresses.length === 0) return [entry];
+
+    const { geo, metrics, ...rest } = entry;
+    const params = pinDomainParams(entry);
+    const created = addresses
+      .filter(ip => !existing.has(`${ip}:${entry.port}`))
+      .map(ip => {
+        existing.add(`${ip}:${entry.port}`);
+        return { ...rest, id: uuidv4(), ip, params };
+      });
+    added += created.length;
+    if (!replace) return [entry, ...created];
+    replaced++;
+    return created;
+  });
+
+  return { entries: next, added, replaced };
+};
@@ -0,0 +1,165 @@
+import { IpEntry } from '../types';
+import { sanitizeRegion, buildParseResult, LocatedNode, ParseResult } from './parser';
+import { isResolvedRegion } from './formatter';
+import { validateEntry } from './storage';
+
+/**
+ * 以文件形式下载文本内容
+ */
+export const downloadText = (filename: string, text: string, mimeType = 'text/plain') => {
+  const blob = new Blob([text], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * 读取用户选择 / 拖入的文件为文本
+ */
+export const readFileText = (file: File): Promise<string> => file.text();
+
+export const getFileExtension = (name: string): string => {
+  const index = name.lastIndexOf('.');
+  return index >= 0 ? name.slice(index + 1).toLowerCase() : '';
+};
+
+/**
+ * 简易 CSV 解析：支持双引号转义、CRLF，首行无逗号但含制表符时按 TSV 处理
+ */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = !firstLine.includes(',') && firstLine.includes('\t') ? '\t' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else cell += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim()); cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim()); cell = '';
+      if (row.some(c => c !== '')) rows.push(row);
+      row = [];
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(c => c !== '')) rows.push(row);
+
+  return rows;
+};
+
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\n');
+
+export interface CsvColumnMapping {
+  ip: number;
+  port: number; // -1 表示无端口列，使用 defaultPort
+  region: number; // -1 表示无地区列
+  defaultPort: string;
+  hasHeader: boolean;
+}
+
+const COLUMN_ALIASES = {
+  ip: ['ip', 'ip地址', 'ip 地址', 'address', 'addr', 'host', 'server', '地址', '节点地址'],
+  port: ['port', '端口', '通信端口'],
+  region: ['region', 'country', 'country_code', 'countrycode', 'colo', '地区', '国家', '物理区域', '地区码']
+};
+
+/**
+ * 根据表头猜测各列含义；无表头时默认第 1/2/3 列
+ */
+export const guessCsvMapping = (rows: string[][]): CsvColumnMapping => {
+  const header = (rows[0] || []).map(cell => cell.toLowerCase());
+  const find = (aliases: string[]) => header.findIndex(cell => aliases.includes(cell));
+  const ip = find(COLUMN_ALIASES.ip);
+
+  if (ip < 0) {
+    const width = header.length;
+    return { ip: 0, port: width > 1 ? 1 : -1, region: width > 2 ? 2 : -1, defaultPort: '443', hasHeader: false };
+  }
+  return { ip, port: find(COLUMN_ALIASES.port), region: find(COLUMN_ALIASES.region), defaultPort: '443', hasHeader: true };
+};
+
+/**
+ * 本应用的 JSON 备份格式
+ */
+const APP_EXPORT_FORMAT = 'ip-manager-pro';
+const APP_EXPORT_VERSION = 1;
+
+export const serializeEntriesJson = (entries: IpEntry[]): string =>
+  JSON.stringify({
+    format: APP_EXPORT_FORMAT,
+    version: APP_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: entries.map(({ id, isLocked, ...rest }) => rest)
+  }, null, 2);
+
+/**
+ * 解析 JSON 备份，非本应用格式返回 null（交由订阅解析处理）
+ */
+export const parseEntriesJson = (text: string): ParseResult | null => {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    return null;
+  }
+  if (!doc || typeof doc !== 'object') return null;
+  const { format, entries } = doc as { format?: unknown; entries?: unknown };
+  if (format !== APP_EXPORT_FORMAT || !Array.isArray(entries)) return null;
+
+  const nodes = entries.map((raw: unknown, i: number): LocatedNode => {
+    // 与工作区数据共用字段校验，只保留已知字段；缺少 IP 的项交给 buildParseResult 报告原因
+    const entry: IpEntry = validateEntry(raw) ?? { id: '', ip: '', port: '', region: '', active: true };
+    const { id, isLocked, ...node } = entry;
+    return {
+      node,
+      origin: { item: i + 1, text: node.ip ? `${node.ip}:${node.port}` : JSON.stringify(raw ?? null).slice(0, 120) }
+    };
+  });
+  return buildParseResult('json', nodes);
+};
+
+export const entriesToTxt = (entries: IpEntry[]): string =>
+  entries.map(e => `${e.ip}:${e.port}${isResolvedRegion(e.region) ? `#${e.region}` : ''}`).join('\n');
+
+export const entriesToCsv = (entries: IpEntry[]): string =>
+  toCsv([
+    ['ip', 'port', 'region', 'active', 'protocol', 'remark'],
+    ...entries.map(e => [e.ip, e.port, e.region || '', String(e.active), e.protocol || '', e.remark || ''])
+  ]);
+
+/**
+ * 按映射关系把 CSV 行转换为条目，行号为 CSV 中的第几行记录（含表头，不计空行）
+ */
+export const csvRowsToEntries = (rows: string[][], mapping: CsvColumnMapping): ParseResult => {
+  const offset = mapping.hasHeader ? 2 : 1;
+  const body = mapping.hasHeader ? rows.slice(1) : rows;
+  const nodes = body.map((row, i): LocatedNode => {
+    const ip = (row[mapping.ip] || '').trim().replace(/[\[\]]/g, '');
+    const port = mapping.port >= 0 ? row[mapping.port] || '' : mapping.defaultPort;
+    const region = mapping.region >= 0 ? sanitizeRegion(row[mapping.region] || '') : '';
+    return { node: { ip, port: port.trim(), region }, origin: { line: i + offset, text: row.join(',').slice(0, 120) } };
+  });
+  return buildParseResult('csv', nodes);
+};
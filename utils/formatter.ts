@@ -0,0 +1,70 @@
+import { IpEntry, ExportTemplate } from '../types';
+
+/**
+ * 未完成识别的地区状态：导出时视为空地区，排序与筛选时视为缺失
+ */
+export const UNRESOLVED_REGIONS = ['待识别', '识别中...', '未知', 'FAIL', '识别成功', ''];
+
+export const isResolvedRegion = (region?: string): boolean =>
+  !!region && !UNRESOLVED_REGIONS.includes(region);
+
+export const SEPARATOR_OPTIONS: { value: string; label: string }[] = [
+  { value: ',', label: '逗号' },
+  { value: '\n', label: '换行' },
+  { value: ' ', label: '空格' },
+  { value: ';', label: '分号' },
+  { value: '|', label: '竖线' }
+];
+
+/**
+ * 模板可用的占位符
+ * {#xxx} 形式表示"有值时带 # 前缀，无值时整体省略"
+ */
+export const TEMPLATE_TOKENS: { token: string; label: string }[] = [
+  { token: '{ip}', label: '原始地址' },
+  { token: '{host}', label: 'IPv6 自动加 []' },
+  { token: '{port}', label: '端口' },
+  { token: '{region}', label: '地区' },
+  { token: '{#region}', label: '#地区 (可省略)' },
+  { token: '{index}', label: '序号 (从 1 开始)' },
+  { token: '{protocol}', label: '协议' },
+  { token: '{remark}', label: '原始备注' }
+];
+
+export const DEFAULT_TEMPLATES: ExportTemplate[] = [
+  { id: 'simple', name: '复制地址:端口', description: 'RAW 节点格式', pattern: '{ip}:{port}', separator: ',' },
+  { id: 'region', name: '复制地址:端口#地区', description: '标注节点格式', pattern: '{ip}:{port}{#region}', separator: ',' },
+  { id: 'lines', name: '逐行 [v6]:端口', description: '每行一个节点，IPv6 加括号', pattern: '{host}:{port}', separator: '\n' },
+  { id: 'csv', name: 'CSV 地址,端口,地区', description: '表格导入格式', pattern: '{ip},{port},{region}', separator: '\n' }
+];
+
+export const isIpv6 = (ip: string): boolean => ip.includes(':');
+
+/**
+ * 渲染单个条目，index 为从 0 开始的序号
+ */
+export const renderPattern = (entry: IpEntry, pattern: string, index: number): string => {
+  const region = isResolvedRegion(entry.region) ? entry.region : '';
+  const values: Record<string, string> = {
+    ip: entry.ip,
+    host: isIpv6(entry.ip) ? `[${entry.ip}]` : entry.ip,
+    port: entry.port,
+    region,
+    index: String(index + 1),
+    protocol: entry.protocol || '',
+    remark: entry.remark || ''
+  };
+
+  return pattern.replace(/\{(#?)(\w+)\}/g, (token, optional: string, key: string) => {
+    if (!(key in values)) return token;
+    const value = values[key];
+    if (optional) return value ? `#${value}` : '';
+    return value;
+  });
+};
+
+/**
+ * 按模板渲染条目列表
+ */
+export const formatEntries = (entries: IpEntry[], template: ExportTemplate): string =>
+  entries.map((entry, index) => renderPattern(entry, template.pattern, index)).join(template.separator);
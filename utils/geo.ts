@@ -1,16 +1,55 @@
+import { GeoSettings, GeoDetails } from '../types';
+import { lookupOfflineGeo } from './offlineGeo';
+import { getCachedGeo, setCachedGeo } from './geoCache';
+import { DEFAULT_GEO_PROVIDERS, queryGeoProvider } from './geoProviders';
+
 export interface GeoInfo {
   ipAddress: string;
   countryCode: string;
 }
 
+export interface GeoResult {
+  region: string; // 国家代码，或 LOCAL / FAIL
+  details?: GeoDetails;
+}
+
+export const DEFAULT_GEO_SETTINGS: GeoSettings = {
+  onlineFallback: true,
+  cacheTtlDays: 30,
+  providers: DEFAULT_GEO_PROVIDERS,
+  concurrency: 8
+};
+
+const MAX_RETRY_WAIT = 15 * 1000;
+
+export interface FetchGeoOptions {
+  force?: boolean; // 跳过缓存，强制重新查询
+  signal?: AbortSignal; // 中止后抛出 AbortError
+}
+
+const abortableDelay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
 /**
  * 健壮的识别逻辑：
- * 1. 多源 Fallback
- * 2. 自动处理 429 频率限制
- * 3. 随机化 API 顺序以延长服务寿命
+ * 1. 优先查询持久化缓存（带 TTL）
+ * 2. 其次查询本地离线库，不产生任何网络请求
+ * 3. 多源 Fallback（可在设置中关闭），成功结果写入缓存
+ * 4. 按用户配置的顺序、超时与频率限制依次请求各 API
+ * 5. 连续失败或返回 429 的 API 自动退避
  */
-export async function fetchIpGeo(ip: string): Promise<string> {
-  if (!ip) return '';
+export async function fetchIpGeo(ip: string, settings: GeoSettings = DEFAULT_GEO_SETTINGS, options: FetchGeoOptions = {}): Promise<GeoResult> {
+  if (!ip) return { region: '' };
   
   const privatePatterns = [
     /^127\./, /^192\.168\./, /^10\./, /^172\.(1[6-9]|2[0-9]|3[0-1])\./,
@@ -18,69 +57,37 @@ export async function fetchIpGeo(ip: string): Promise<string> {
   ];
   
   if (privatePatterns.some(pattern => pattern.test(ip))) {
-    return 'LOCAL';
+    return { region: 'LOCAL' };
   }
 
-  // 更多、更分散的 API 来源
-  const apis = [
-    {
-      name: 'Country.is',
-      url: `https://api.country.is/${ip}`,
-      parser: (data: any) => data.country
-    },
-    {
-      name: 'IpWhoIs',
-      url: `https://ipwho.is/${ip}`,
-      parser: (data: any) => data.country_code
-    },
-    {
-      name: 'FreeIpApi',
-      url: `https://freeipapi.com/api/json/${ip}`,
-      parser: (data: any) => data.countryCode
-    },
-    {
-      name: 'IpLocation',
-      url: `https://api.iplocation.net/?ip=${ip}`,
-      parser: (data: any) => data.country_code2
-    },
-    {
-      name: 'IpApiCo',
-      url: `https://ipapi.co/${ip}/json/`,
-      parser: (data: any) => data.country_code
-    }
-  ];
+  if (!options.force) {
+    const cached = getCachedGeo(ip, settings.cacheTtlDays);
+    if (cached) return { region: cached.country, details: cached.details };
+  }
 
-  // 随机化顺序，防止总是压榨第一个 API
-  const shuffledApis = [...apis].sort(() => Math.random() - 0.5);
+  const offline = lookupOfflineGeo(ip);
+  if (offline) return { region: offline.country, details: offline.details };
 
-  for (const api of shuffledApis) {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3500);
+  if (!settings.onlineFallback) return { region: 'FAIL' };
 
-      const response = await fetch(api.url, { 
-        signal: controller.signal,
-        headers: { 'Accept': 'application/json' }
-      });
-      clearTimeout(timeoutId);
+  const providers = settings.providers.filter(p => p.enabled);
 
-      // 如果碰到 429 频率限制，记录并尝试下一个 API
-      if (response.status === 429) {
-        console.warn(`API ${api.name} rate limited. Trying next...`);
-        continue;
-      }
+  // 按配置顺序依次尝试；全部因退避或限流被跳过时等待最早可用的源再试一次
+  for (let round = 0; round < 2; round++) {
+    let retryAfter = Infinity;
 
-      if (response.ok) {
-        const data = await response.json();
-        const code = api.parser(data);
-        if (code && code !== '-' && code !== 'None' && code !== '??') {
-          return String(code).toUpperCase();
-        }
+    for (const provider of providers) {
+      const result = await queryGeoProvider(provider, ip, options.signal);
+      if (result.status === 'ok') {
+        setCachedGeo(ip, result.country, provider.name, result.details);
+        return { region: result.country, details: result.details };
       }
-    } catch (e) {
-      continue;
+      if (result.status === 'skipped') retryAfter = Math.min(retryAfter, result.retryAfter);
     }
+
+    if (!Number.isFinite(retryAfter) || retryAfter > MAX_RETRY_WAIT) break;
+    await abortableDelay(retryAfter, options.signal);
   }
 
-  return 'FAIL'; 
-}
\ No newline at end of file
+  return { region: 'FAIL' };
+}
@@ -0,0 +1,100 @@
+import { idbGet, idbSet, idbDelete } from './idb';
+import { GeoDetails } from '../types';
+
+/**
+ * 地理位置持久化缓存：
+ * 内存 Map 提供同步查询，变更延迟合并写入 IndexedDB
+ */
+const IDB_KEY = 'geo-cache';
+const SAVE_DELAY = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GeoCacheRecord {
+  ip: string;
+  country: string;
+  source: string; // 返回结果的 API 名称
+  cachedAt: number;
+  details?: GeoDetails;
+}
+
+const cache = new Map<string, GeoCacheRecord>();
+let saveTimer: number | null = null;
+
+const scheduleSave = () => {
+  if (saveTimer !== null) window.clearTimeout(saveTimer);
+  saveTimer = window.setTimeout(() => {
+    saveTimer = null;
+    idbSet(IDB_KEY, Array.from(cache.values())).catch(e => console.error('Failed to save geo cache', e));
+  }, SAVE_DELAY);
+};
+
+const isExpired = (record: GeoCacheRecord, ttlDays: number) =>
+  ttlDays > 0 && Date.now() - record.cachedAt > ttlDays * DAY_MS;
+
+/**
+ * 读取已保存的缓存并合并到内存中；读取完成前已写入的查询结果可能更新，同一 IP 保留较新的记录
+ */
+export const restoreGeoCache = async (): Promise<number> => {
+  try {
+    const stored = await idbGet<GeoCacheRecord[]>(IDB_KEY);
+    if (Array.isArray(stored)) {
+      // 内存中已有记录时，之前排队的保存可能只写入了部分结果，合并后重新保存
+      const hadRecords = cache.size > 0;
+      stored.filter(r => r && r.ip && r.country).forEach(record => {
+        const current = cache.get(record.ip);
+        if (!current || current.cachedAt < record.cachedAt) cache.set(record.ip, record);
+      });
+      if (hadRecords) scheduleSave();
+    }
+  } catch (e) {
+    console.error('Geo cache corrupted', e);
+  }
+  return cache.size;
+};
+
+/**
+ * 查询缓存，过期记录视为未命中；ttlDays 为 0 表示永不过期
+ */
+export const getCachedGeo = (ip: string, ttlDays: number): GeoCacheRecord | null => {
+  const record = cache.get(ip);
+  return record && !isExpired(record, ttlDays) ? record : null;
+};
+
+export const setCachedGeo = (ip: string, country: string, source: string, details?: GeoDetails) => {
+  cache.set(ip, { ip, country, source, cachedAt: Date.now(), details });
+  scheduleSave();
+};
+
+export const deleteCachedGeo = (ip: string) => {
+  if (cache.delete(ip)) scheduleSave();
+};
+
+/**
+ * 清除过期记录，返回清除条数
+ */
+export const pruneGeoCache = (ttlDays: number): number => {
+  let removed = 0;
+  cache.forEach((record, ip) => {
+    if (isExpired(record, ttlDays)) {
+      cache.delete(ip);
+      removed++;
+    }
+  });
+  if (removed > 0) scheduleSave();
+  return removed;
+};
+
+export const clearGeoCache = async (): Promise<void> => {
+  cache.clear();
+  if (saveTimer !== null) window.clearTimeout(saveTimer);
+  saveTimer = null;
+  await idbDelete(IDB_KEY);
+};
+
+/**
+ * 按缓存时间倒序列出所有记录
+ */
+export const listGeoCache = (): GeoCacheRecord[] =>
+  Array.from(cache.values()).sort((a, b) => b.cachedAt - a.cachedAt);
+
+export const isGeoCacheExpired = isExpired;
@@ -0,0 +1,102 @@
+import { GeoDetails, IpEntry } from '../types';
+import { isResolvedRegion } from './formatter';
+
+/**
+ * 结构化网络信息（ASN / ISP / 城市 / 数据中心）的归一化与筛选
+ */
+
+// 组织名称中出现这些关键字（整词）时视为数据中心 IP（仅在数据源未明确给出时推断）
+// 不收录 cloud、server、google 等泛用词，避免把普通运营商误判为机房
+const HOSTING_KEYWORDS = [
+  'hosting', 'datacenter', 'data center', 'vps',
+  'cloudflare', 'amazon', 'aws', 'microsoft', 'azure', 'oracle', 'akamai', 'fastly',
+  'digitalocean', 'linode', 'vultr', 'ovh', 'hetzner', 'alibaba', 'tencent', 'choopa', 'leaseweb'
+];
+
+const HOSTING_PATTERN = new RegExp(`(?:^|[^a-z0-9])(?:${HOSTING_KEYWORDS.join('|')})(?![a-z0-9])`, 'i');
+
+export const parseAsn = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isInteger(value) && value > 0 ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^\s*(?:AS)?(\d+)/i);
+  return match ? Number(match[1]) : undefined;
+};
+
+const parseBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (value === 1 || value === '1' || value === 'true') return true;
+  if (value === 0 || value === '0' || value === 'false') return false;
+  return undefined;
+};
+
+const cleanText = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).trim();
+  return text && text !== '-' ? text : undefined;
+};
+
+/**
+ * 组织名称未知时返回 undefined，已知但不含关键字时返回 false
+ */
+export const inferHosting = (org?: string): boolean | undefined => {
+  if (!org) return undefined;
+  return HOSTING_PATTERN.test(org);
+};
+
+/**
+ * 将数据源返回的原始字段整理为 GeoDetails，全部为空时返回 undefined
+ */
+export const toGeoDetails = (raw: { asn?: unknown; org?: unknown; city?: unknown; hosting?: unknown }): GeoDetails | undefined => {
+  const org = cleanText(raw.org);
+  const details: GeoDetails = {
+    asn: parseAsn(raw.asn),
+    org,
+    city: cleanText(raw.city),
+    hosting: parseBoolean(raw.hosting) ?? inferHosting(org)
+  };
+  (Object.keys(details) as (keyof GeoDetails)[]).forEach(key => details[key] === undefined && delete details[key]);
+  return Object.keys(details).length > 0 ? details : undefined;
+};
+
+export const formatAsn = (asn?: number) => (asn ? `AS${asn}` : '');
+
+export type GeoFilterField = 'region' | 'asn' | 'org' | 'city' | 'hosting' | 'colo';
+
+export const GEO_FILTER_FIELDS: { field: GeoFilterField; label: string }[] = [
+  { field: 'region', label: '地区' },
+  { field: 'asn', label: 'ASN' },
+  { field: 'org', label: '运营商' },
+  { field: 'city', label: '城市' },
+  { field: 'hosting', label: '机房' },
+  { field: 'colo', label: 'Colo' }
+];
+
+export type GeoFilters = Record<GeoFilterField, string[]>;
+
+export const EMPTY_GEO_FILTERS: GeoFilters = { region: [], asn: [], org: [], city: [], hosting: [], colo: [] };
+
+/**
+ * 读取条目在某个筛选维度上的取值，未识别时返回 null
+ */
+export const getGeoFieldValue = (entry: IpEntry, field: GeoFilterField): string | null => {
+  switch (field) {
+    // LOCAL 为锁定占位项与内网地址的标记，不作为可筛选的地区
+    case 'region': return isResolvedRegion(entry.region) && entry.region !== 'LOCAL' ? entry.region! : null;
+    case 'asn': return entry.geo?.asn ? formatAsn(entry.geo.asn) : null;
+    case 'org': return entry.geo?.org || null;
+    case 'city': return entry.geo?.city || null;
+    case 'hosting': return entry.geo?.hosting === undefined ? null : entry.geo.hosting ? '数据中心' : '非数据中心';
+    case 'colo': return entry.metrics?.colo || null;
+  }
+};
+
+/**
+ * 同一维度内任一匹配即可，不同维度之间需同时满足
+ */
+export const matchesGeoFilters = (entry: IpEntry, filters: GeoFilters) =>
+  GEO_FILTER_FIELDS.every(({ field }) => {
+    const selected = filters[field];
+    if (selected.length === 0) return true;
+    const value = getGeoFieldValue(entry, field);
+    return value !== null && selected.includes(value);
+  });
@@ -0,0 +1,198 @@
+import { GeoProvider, GeoDetails } from '../types';
+import { toGeoDetails } from './geoDetails';
+
+/**
+ * 在线地理位置 API 源：
+ * 1. 内置源与自定义源统一为 URL 模板 + JSON 路径
+ * 2. 记录每个源的成功 / 失败 / 429 次数
+ * 3. 连续失败或被限流的源在本轮识别中自动退避
+ */
+const BACKOFF_THRESHOLD = 3; // 连续失败多少次后开始退避
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+const RATE_LIMIT_BACKOFF_MS = 60 * 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+
+export const DEFAULT_GEO_PROVIDERS: GeoProvider[] = [
+  { id: 'country-is', name: 'Country.is', url: 'https://api.country.is/{ip}', countryPath: 'country', enabled: true, timeoutMs: 3500, rateLimit: 0, builtin: true },
+  { id: 'ipwho-is', name: 'IpWhoIs', url: 'https://ipwho.is/{ip}', countryPath: 'country_code', asnPath: 'connection.asn', orgPath: 'connection.isp', cityPath: 'city', enabled: true, timeoutMs: 3500, rateLimit: 0, builtin: true },
+  { id: 'freeipapi', name: 'FreeIpApi', url: 'https://freeipapi.com/api/json/{ip}', countryPath: 'countryCode', cityPath: 'cityName', enabled: true, timeoutMs: 3500, rateLimit: 60, builtin: true },
+  { id: 'iplocation', name: 'IpLocation', url: 'https://api.iplocation.net/?ip={ip}', countryPath: 'country_code2', orgPath: 'isp', enabled: true, timeoutMs: 3500, rateLimit: 0, builtin: true },
+  { id: 'ipapi-co', name: 'IpApiCo', url: 'https://ipapi.co/{ip}/json/', countryPath: 'country_code', asnPath: 'asn', orgPath: 'org', cityPath: 'city', enabled: true, timeoutMs: 3500, rateLimit: 30, builtin: true }
+];
+
+export interface GeoProviderStats {
+  success: number;
+  failure: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  backoffUntil: number; // 时间戳，0 表示未退避
+  lastError?: string;
+}
+
+export type GeoProviderResult =
+  | { status: 'ok'; country: string; details?: GeoDetails }
+  | { status: 'skipped'; retryAfter: number } // 退避中或超出频率限制
+  | { status: 'failed' };
+
+const stats = new Map<string, GeoProviderStats>();
+const requestLog = new Map<string, number[]>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+const getStats = (id: string): GeoProviderStats => {
+  let record = stats.get(id);
+  if (!record) {
+    record = { success: 0, failure: 0, rateLimited: 0, consecutiveFailures: 0, backoffUntil: 0 };
+    stats.set(id, record);
+  }
+  return record;
+};
+
+export const getGeoProviderStats = (id: string): GeoProviderStats => ({ ...getStats(id) });
+
+export const subscribeGeoProviderStats = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * 清零统计数据
+ */
+export const resetGeoProviderStats = () => {
+  stats.clear();
+  requestLog.clear();
+  notify();
+};
+
+/**
+ * 新一轮识别开始时解除所有退避，让失败过的源重新参与
+ */
+export const resetGeoProviderBackoff = () => {
+  stats.forEach(record => {
+    record.consecutiveFailures = 0;
+    record.backoffUntil = 0;
+  });
+  notify();
+};
+
+/**
+ * 按 "a.b.0.c" 形式的路径读取 JSON 字段
+ */
+export const readJsonPath = (data: any, path: string): any =>
+  path.split('.').filter(Boolean).reduce((value, key) => (value == null ? undefined : value[key]), data);
+
+export const buildProviderUrl = (provider: GeoProvider, ip: string) =>
+  provider.url.split('{ip}').join(ip);
+
+const extractDetails = (provider: GeoProvider, data: any): GeoDetails | undefined => {
+  const read = (path?: string) => (path ? readJsonPath(data, path) : undefined);
+  return toGeoDetails({
+    asn: read(provider.asnPath),
+    org: read(provider.orgPath),
+    city: read(provider.cityPath),
+    hosting: read(provider.hostingPath)
+  });
+};
+
+const recordFailure = (provider: GeoProvider, message: string) => {
+  const record = getStats(provider.id);
+  record.failure++;
+  record.consecutiveFailures++;
+  record.lastError = message;
+  if (record.consecutiveFailures >= BACKOFF_THRESHOLD) {
+    const delay = Math.min(BACKOFF_BASE_MS * 2 ** (record.consecutiveFailures - BACKOFF_THRESHOLD), BACKOFF_MAX_MS);
+    record.backoffUntil = Date.now() + delay;
+  }
+  notify();
+};
+
+/**
+ * 距离该源下次可用还需等待的毫秒数，0 表示可立即请求
+ */
+const getWaitTime = (provider: GeoProvider): number => {
+  const now = Date.now();
+  const backoff = getStats(provider.id).backoffUntil - now;
+  if (backoff > 0) return backoff;
+  if (provider.rateLimit <= 0) return 0;
+
+  const log = (requestLog.get(provider.id) || []).filter(t => now - t < RATE_WINDOW_MS);
+  requestLog.set(provider.id, log);
+  return log.length < provider.rateLimit ? 0 : log[0] + RATE_WINDOW_MS - now;
+};
+
+/**
+ * 通过单个源查询国家代码；外部 signal 中止时抛出 AbortError，不计入失败统计
+ */
+export async function queryGeoProvider(provider: GeoProvider, ip: string, signal?: AbortSignal): Promise<GeoProviderResult> {
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+  const waitTime = getWaitTime(provider);
+  if (waitTime > 0) return { status: 'skipped', retryAfter: waitTime };
+
+  const log = requestLog.get(provider.id) || [];
+  log.push(Date.now());
+  requestLog.set(provider.id, log);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), provider.timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(buildProviderUrl(provider, ip), {
+      signal: controller.signal,
+      headers: { 'Accept': 'application/json' }
+    });
+
+    if (response.status === 429) {
+      const record = getStats(provider.id);
+      record.rateLimited++;
+      record.lastError = 'HTTP 429';
+      record.backoffUntil = Date.now() + RATE_LIMIT_BACKOFF_MS;
+      notify();
+      return { status: 'failed' };
+    }
+
+    if (!response.ok) {
+      recordFailure(provider, `HTTP ${response.status}`);
+      return { status: 'failed' };
+    }
+
+    const data = await response.json();
+    const code = readJsonPath(data, provider.countryPath);
+    if (!code || code === '-' || code === 'None' || code === '??') {
+      recordFailure(provider, '响应中没有国家代码');
+      return { status: 'failed' };
+    }
+
+    const record = getStats(provider.id);
+    record.success++;
+    record.consecutiveFailures = 0;
+    record.backoffUntil = 0;
+    notify();
+    return { status: 'ok', country: String(code).toUpperCase(), details: extractDetails(provider, data) };
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    recordFailure(provider, controller.signal.aborted ? '请求超时' : '网络错误');
+    return { status: 'failed' };
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * 合并已保存的源列表：保留用户的顺序与配置，补齐新增的内置源及内置源新增的字段
+ */
+export const mergeGeoProviders = (saved: GeoProvider[] | undefined): GeoProvider[] => {
+  if (!Array.isArray(saved)) return DEFAULT_GEO_PROVIDERS;
+  const valid = saved
+    .filter(p => p && p.id && p.url && p.countryPath)
+    .map(p => {
+      const builtin = p.builtin ? DEFAULT_GEO_PROVIDERS.find(d => d.id === p.id) : undefined;
+      return builtin ? { ...builtin, ...p } : p;
+    });
+  const missing = DEFAULT_GEO_PROVIDERS.filter(d => !valid.some(p => p.id === d.id));
+  return [...valid, ...missing];
+};
@@ -0,0 +1,151 @@
+import { SetStateAction } from 'react';
+import { IpEntry } from '../types';
+import { idbGet, idbSet, idbDelete } from './idb';
+import { DEFAULT_WORKSPACE_ID } from './workspace';
+
+/**
+ * 列表撤销 / 重做历史：
+ * 每次变更前将当前列表压入 past，撤销时与 future 交换；
+ * 相同 group 的连续变更（逐字编辑、识别 / 测速任务逐条回写）合并为一步
+ */
+export const HISTORY_LIMIT = 50;
+// 持久化的历史按快照中的条目总数限制，大列表只保存最近的几步，避免每次写入数十 MB
+const PERSISTED_ENTRY_LIMIT = 20000;
+const IDB_KEY_PREFIX = 'entries-history';
+const SAVE_DELAY = 1000;
+
+export interface EntriesChangeOptions {
+  group?: string; // 与上一次变更的 group 相同时合并为一步
+  notice?: string; // 变更后显示带"撤销"按钮的提示
+  record?: boolean; // 为 false 时不计入历史，例如从存储中恢复
+}
+
+export type EntriesSetter = (action: SetStateAction<IpEntry[]>, options?: EntriesChangeOptions) => void;
+
+export interface HistoryState {
+  past: IpEntry[][];
+  present: IpEntry[];
+  future: IpEntry[][];
+  group: string | null;
+}
+
+// prev.map 即使没有修改任何条目也会返回新数组，逐项比较引用避免产生空的历史步骤
+const isSameList = (a: IpEntry[], b: IpEntry[]) =>
+  a === b || (a.length === b.length && a.every((entry, i) => entry === b[i]));
+
+export const createHistory = (present: IpEntry[]): HistoryState => ({ past: [], present, future: [], group: null });
+
+export const applyChange = (
+  state: HistoryState,
+  action: SetStateAction<IpEntry[]>,
+  options: EntriesChangeOptions = {}
+): HistoryState => {
+  const next = typeof action === 'function' ? action(state.present) : action;
+  if (isSameList(next, state.present)) return state;
+  if (options.record === false || (options.group && options.group === state.group)) {
+    return { ...state, present: next };
+  }
+  return {
+    past: [...state.past, state.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+    group: options.group ?? null
+  };
+};
+
+export const undoHistory = (state: HistoryState): HistoryState => {
+  if (state.past.length === 0) return state;
+  return {
+    past: state.past.slice(0, -1),
+    present: state.past[state.past.length - 1],
+    future: [state.present, ...state.future],
+    group: null
+  };
+};
+
+export const redoHistory = (state: HistoryState): HistoryState => {
+  if (state.future.length === 0) return state;
+  return {
+    past: [...state.past, state.present],
+    present: state.future[0],
+    future: state.future.slice(1),
+    group: null
+  };
+};
+
+interface StoredHistory {
+  past: IpEntry[][];
+  future: IpEntry[][];
+}
+
+// 每个工作区单独保存历史，默认工作区沿用最初的键名
+const historyKey = (workspaceId: string) =>
+  workspaceId === DEFAULT_WORKSPACE_ID ? IDB_KEY_PREFIX : `${IDB_KEY_PREFIX}:${workspaceId}`;
+
+/**
+ * 从离当前最近的一步开始保留快照（先撤销方向，再重做方向），直到条目总数达到上限
+ */
+const trimForStorage = (past: IpEntry[][], future: IpEntry[][]): StoredHistory => {
+  let budget = PERSISTED_ENTRY_LIMIT;
+  const take = (snapshots: IpEntry[][]) => {
+    const kept: IpEntry[][] = [];
+    for (const snapshot of snapshots) {
+      if (snapshot.length > budget) break;
+      budget -= snapshot.length;
+      kept.push(snapshot);
+    }
+    return kept;
+  };
+  const keptPast = take([...past].reverse()).reverse();
+  return { past: keptPast, future: take(future) };
+};
+
+let saveTimer: number | null = null;
+let pending: { key: string; value: StoredHistory } | null = null;
+
+const flushHistory = () => {
+  if (saveTimer !== null) window.clearTimeout(saveTimer);
+  saveTimer = null;
+  if (!pending) return;
+  const { key, value } = pending;
+  pending = null;
+  idbSet(key, value).catch(e => console.error('Failed to save history', e));
+};
+
+/**
+ * 历史快照体积较大，按条目总数截取后延迟合并写入 IndexedDB；内存中的历史不受影响
+ */
+export const saveHistory = (workspaceId: string, past: IpEntry[][], future: IpEntry[][]) => {
+  const key = historyKey(workspaceId);
+  // 切换工作区时先写入上一个工作区尚未保存的历史
+  if (pending && pending.key !== key) flushHistory();
+  pending = { key, value: trimForStorage(past, future) };
+  if (saveTimer !== null) window.clearTimeout(saveTimer);
+  saveTimer = window.setTimeout(flushHistory, SAVE_DELAY);
+};
+
+export const deleteHistory = (workspaceId: string) => {
+  const key = historyKey(workspaceId);
+  if (pending?.key === key) {
+    pending = null;
+    if (saveTimer !== null) window.clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  idbDelete(key).catch(e => console.error('Failed to delete history', e));
+};
+
+export const restoreHistory = async (workspaceId: string): Promise<StoredHistory | null> => {
+  try {
+    const stored = await idbGet<StoredHistory>(historyKey(workspaceId));
+    if (stored && Array.isArray(stored.past) && Array.isArray(stored.future)) {
+      const isSnapshot = (snapshot: unknown): snapshot is IpEntry[] => Array.isArray(snapshot);
+      return {
+        past: stored.past.filter(isSnapshot).slice(-HISTORY_LIMIT),
+        future: stored.future.filter(isSnapshot).slice(0, HISTORY_LIMIT)
+      };
+    }
+  } catch (e) {
+    console.error('History storage corrupted', e);
+  }
+  return null;
+};
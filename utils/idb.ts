@@ -0,0 +1,45 @@
+/**
+ * IndexedDB 简易键值存储，用于体积较大、不适合放入 localStorage 的数据
+ */
+const DB_NAME = 'ip-manager-pro';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGet = <T>(key: string): Promise<T | undefined> =>
+  withStore<T | undefined>('readonly', store => store.get(key));
+
+export const idbSet = (key: string, value: unknown): Promise<void> =>
+  withStore<void>('readwrite', store => store.put(value, key));
+
+export const idbDelete = (key: string): Promise<void> =>
+  withStore<void>('readwrite', store => store.delete(key));
@@ -0,0 +1,131 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IpEntry, ImportPolicy, ImportRule, ImportRuleKind } from '../types';
+import { getIpVersion, isIpInRange, parseCidr, IpRange } from './ip';
+
+/**
+ * 导入策略：对批量、手动、文件导入的条目统一过滤，
+ * 每个条目按规则顺序检查，被拒绝时记录第一条拒绝它的规则用于结果汇总
+ */
+export const IMPORT_RULE_KIND_LABELS: Record<ImportRuleKind, string> = {
+  port: '端口',
+  cidr: 'IP 段',
+  region: '地区',
+  ipVersion: 'IP 版本'
+};
+
+export const IMPORT_RULE_PLACEHOLDERS: Record<ImportRuleKind, string> = {
+  port: '80,8080 或 8000-9000',
+  cidr: '10.0.0.0/8,2606:4700::/32',
+  region: 'CN,US',
+  ipVersion: '4 或 6'
+};
+
+const PRIVATE_CIDRS = '127.0.0.0/8,10.0.0.0/8,172.16.0.0/12,192.168.0.0/16,169.254.0.0/16,::1/128,fc00::/7,fe80::/10';
+
+// 与之前写死的行为一致：拒绝 80 / 8080 端口
+export const DEFAULT_IMPORT_POLICY: ImportPolicy = {
+  rules: [{ id: 'default-deny-http-ports', kind: 'port', action: 'deny', value: '80,8080', enabled: true }]
+};
+
+export const IMPORT_RULE_PRESETS: { label: string; rule: Omit<ImportRule, 'id' | 'enabled'> }[] = [
+  { label: '仅 TLS 端口', rule: { kind: 'port', action: 'allow', value: '443,2053,2083,2087,2096,8443' } },
+  { label: '禁止 80/8080', rule: { kind: 'port', action: 'deny', value: '80,8080' } },
+  { label: '禁止私有地址', rule: { kind: 'cidr', action: 'deny', value: PRIVATE_CIDRS } },
+  { label: '仅 IPv4', rule: { kind: 'ipVersion', action: 'allow', value: '4' } },
+  { label: '仅 IPv6', rule: { kind: 'ipVersion', action: 'allow', value: '6' } }
+];
+
+export const createImportRule = (rule: Omit<ImportRule, 'id' | 'enabled'>): ImportRule => ({ ...rule, id: uuidv4(), enabled: true });
+
+type Matcher = (entry: IpEntry) => boolean;
+
+const splitValues = (value: string) => value.split(/[,，\s]+/).map(v => v.trim()).filter(Boolean);
+
+const parsePortCondition = (text: string): ((port: number) => boolean) | null => {
+  const range = text.match(/^(\d{1,5})-(\d{1,5})$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return min <= max && max <= 65535 ? port => port >= min && port <= max : null;
+  }
+  if (!/^\d{1,5}$/.test(text) || Number(text) > 65535) return null;
+  const target = Number(text);
+  return port => port === target;
+};
+
+/**
+ * 将规则值编译为匹配函数，值无效时返回错误说明
+ */
+export const compileImportRule = (rule: Pick<ImportRule, 'kind' | 'value'>): Matcher | string => {
+  const values = splitValues(rule.value);
+  if (values.length === 0) return '规则值不能为空';
+
+  switch (rule.kind) {
+    case 'port': {
+      const conditions = values.map(parsePortCondition);
+      const invalid = values.find((_, i) => !conditions[i]);
+      if (invalid) return `无效的端口或区间：${invalid}`;
+      return entry => /^\d+$/.test(entry.port) && conditions.some(match => match!(Number(entry.port)));
+    }
+    case 'cidr': {
+      const ranges = values.map(parseCidr);
+      const invalid = values.find((_, i) => !ranges[i]);
+      if (invalid) return invalid.endsWith('/') ? `IP 段缺少前缀长度：${invalid}` : `无效的 IP 段：${invalid}`;
+      return entry => (ranges as IpRange[]).some(range => isIpInRange(entry.ip, range));
+    }
+    case 'region': {
+      const regions = new Set(values.map(v => v.toUpperCase()));
+      return entry => !!entry.region && regions.has(entry.region.toUpperCase());
+    }
+    case 'ipVersion': {
+      const versions = values.map(v => v.toLowerCase().replace(/^(ip)?v/, ''));
+      if (versions.some(v => v !== '4' && v !== '6')) return 'IP 版本只能为 4 或 6';
+      return entry => versions.includes(String(getIpVersion(entry.ip)));
+    }
+  }
+};
+
+export const describeImportRule = (rule: Pick<ImportRule, 'kind' | 'action' | 'value'>): string => {
+  const action = rule.action === 'deny' ? '禁止' : '仅允许';
+  const values = splitValues(rule.value);
+  if (rule.kind === 'ipVersion') return `${action} ${values.map(v => `IPv${v.replace(/\D/g, '')}`).join('/')}`;
+  // 值较多时只列出前几项，避免汇总提示过长
+  const shown = values.length > 3 ? `${values.slice(0, 3).join(',')} 等 ${values.length} 项` : values.join(',');
+  return `${action}${IMPORT_RULE_KIND_LABELS[rule.kind]} ${shown}`;
+};
+
+export interface PolicyRejection {
+  rule: ImportRule;
+  count: number;
+}
+
+export interface PolicyResult {
+  accepted: IpEntry[];
+  rejected: { entry: IpEntry; rule: ImportRule }[]; // 每个被拒绝的条目及拒绝它的规则，用于导入报告
+  rejections: PolicyRejection[]; // 按规则顺序，只包含拒绝过条目的规则
+}
+
+export const applyImportPolicy = (entries: IpEntry[], policy: ImportPolicy): PolicyResult => {
+  // 值无效的规则在设置中会提示，过滤时跳过
+  const compiled = policy.rules
+    .filter(rule => rule.enabled)
+    .map(rule => ({ rule, match: compileImportRule(rule) }))
+    .filter((item): item is { rule: ImportRule; match: Matcher } => typeof item.match !== 'string');
+
+  const counts = new Map<string, number>();
+  const rejected: PolicyResult['rejected'] = [];
+  const accepted = entries.filter(entry => {
+    const rejectedBy = compiled.find(({ rule, match }) => match(entry) === (rule.action === 'deny'));
+    if (!rejectedBy) return true;
+    counts.set(rejectedBy.rule.id, (counts.get(rejectedBy.rule.id) || 0) + 1);
+    rejected.push({ entry, rule: rejectedBy.rule });
+    return false;
+  });
+
+  return {
+    accepted,
+    rejected,
+    rejections: compiled
+      .filter(({ rule }) => counts.has(rule.id))
+      .map(({ rule }) => ({ rule, count: counts.get(rule.id)! }))
+  };
+};
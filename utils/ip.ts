@@ -0,0 +1,129 @@
+/**
+ * IPv4 转 32 位无符号整数，非法返回 null
+ */
+export const parseIpv4 = (ip: string): number | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+};
+
+/**
+ * IPv6 转 128 位 BigInt，支持 "::" 压缩、内嵌 IPv4 与 %zone 后缀，非法返回 null
+ * 内嵌 IPv4 只能位于地址末尾；zone 按 RFC 6874 限定为非保留字符
+ */
+export const parseIpv6 = (ip: string): bigint | null => {
+  const [address, zone, ...rest] = ip.replace(/^\[|\]$/g, '').split('%');
+  if (rest.length > 0 || (zone !== undefined && !/^[\w.~-]+$/.test(zone))) return null;
+  if (!address.includes(':')) return null;
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string, allowV4: boolean): number[] | null => {
+    if (!part) return [];
+    const groups: number[] = [];
+    const items = part.split(':');
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      if (allowV4 && i === items.length - 1 && item.includes('.')) {
+        const v4 = parseIpv4(item);
+        if (v4 === null) return null;
+        groups.push(Math.floor(v4 / 65536), v4 % 65536);
+      } else {
+        if (!/^[0-9a-fA-F]{1,4}$/.test(item)) return null;
+        groups.push(parseInt(item, 16));
+      }
+    }
+    return groups;
+  };
+
+  const head = toGroups(halves[0], halves.length === 1);
+  const tail = halves.length === 2 ? toGroups(halves[1], true) : [];
+  if (!head || !tail) return null;
+
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill(0), ...tail];
+  return groups.reduce((acc, group) => (acc << 16n) | BigInt(group), 0n);
+};
+
+export type IpVersion = 4 | 6;
+
+/**
+ * 统一转为 BigInt 数值，便于比较与区间计算
+ */
+export const ipToBigInt = (ip: string): { version: IpVersion; value: bigint } | null => {
+  const v4 = parseIpv4(ip);
+  if (v4 !== null) return { version: 4, value: BigInt(v4) };
+  const v6 = parseIpv6(ip);
+  if (v6 !== null) return { version: 6, value: v6 };
+  return null;
+};
+
+export const getIpVersion = (ip: string): IpVersion | null => ipToBigInt(ip)?.version ?? null;
+
+export const formatIpv4 = (value: number): string =>
+  [24, 16, 8, 0].map(shift => (value >>> shift) & 255).join('.');
+
+/**
+ * 128 位数值转 IPv6 文本，按 RFC 5952 用 "::" 压缩最长的一段连续零组（至少两组）
+ */
+export const formatIpv6 = (value: bigint): string => {
+  const groups = Array.from({ length: 8 }, (_, i) => Number((value >> BigInt((7 - i) * 16)) & 0xffffn));
+
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; i++) {
+    let length = 0;
+    while (i + length < 8 && groups[i + length] === 0) length++;
+    if (length > bestLength) {
+      bestStart = i;
+      bestLength = length;
+    }
+    i += length;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart < 0) return hex.join(':');
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+};
+
+export interface IpRange {
+  version: IpVersion;
+  start: bigint;
+  end: bigint;
+}
+
+/**
+ * 解析 CIDR（例如 104.16.0.0/13、2606:4700::/32），不带前缀长度时视为单个地址
+ */
+export const parseCidr = (cidr: string): IpRange | null => {
+  const [address, prefixText, ...rest] = cidr.trim().split('/');
+  if (rest.length > 0) return null;
+  const parsed = ipToBigInt(address);
+  if (!parsed) return null;
+
+  const bits = parsed.version === 4 ? 32 : 128;
+  // 写了 "/" 就必须带前缀长度，否则 "10.0.0.0/" 会被当作 /0 匹配全部地址
+  if (prefixText !== undefined && !/^\d+$/.test(prefixText)) return null;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (prefix > bits) return null;
+
+  const hostMask = (1n << BigInt(bits - prefix)) - 1n;
+  const start = parsed.value & ~hostMask;
+  return { version: parsed.version, start, end: start | hostMask };
+};
+
+export const isIpInRange = (ip: string, range: IpRange): boolean => {
+  const parsed = ipToBigInt(ip);
+  return !!parsed && parsed.version === range.version && parsed.value >= range.start && parsed.value <= range.end;
+};
@@ -0,0 +1,129 @@
+/**
+ * 通用后台任务队列（地区识别、延迟测试共用）：
+ * 1. 固定数量的 worker 并发消费任务队列
+ * 2. 暂停后 worker 不再领取新任务，进行中的任务会正常完成
+ * 3. 取消时通过 AbortController 中止进行中的任务，剩余任务不再处理
+ */
+export type JobStatus = 'running' | 'paused' | 'cancelled' | 'finished';
+
+export interface JobProgress {
+  status: JobStatus;
+  total: number;
+  done: number;
+  failed: number;
+}
+
+export interface JobQueue {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  finished: Promise<JobProgress>;
+}
+
+interface JobQueueOptions<T> {
+  concurrency: number;
+  run: (key: string, signal: AbortSignal) => Promise<T>;
+  isFailed: (result: T) => boolean;
+  fallback: T; // run 抛出非中止异常时使用的结果
+  onResult: (key: string, result: T) => void;
+  onProgress: (progress: JobProgress) => void;
+  jitterMs?: number; // 每个任务开始前的随机延迟上限，用于错开请求
+}
+
+export const MAX_CONCURRENCY = 32;
+
+const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+export const startJobQueue = <T>(keys: string[], options: JobQueueOptions<T>): JobQueue => {
+  const queue = [...keys];
+  const controller = new AbortController();
+  const progress: JobProgress = { status: 'running', total: keys.length, done: 0, failed: 0 };
+  const jitterMs = options.jitterMs ?? 0;
+  let resumeGate: { promise: Promise<void>; release: () => void } | null = null;
+  // 等待随机延迟的 worker，暂停或取消时立即唤醒
+  const sleepers = new Set<() => void>();
+
+  const report = () => options.onProgress({ ...progress });
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const wake = () => {
+      window.clearTimeout(timer);
+      sleepers.delete(wake);
+      resolve();
+    };
+    const timer = window.setTimeout(wake, ms);
+    sleepers.add(wake);
+  });
+
+  const wakeSleepers = () => Array.from(sleepers).forEach(wake => wake());
+
+  const runWorker = async () => {
+    while (queue.length > 0 && !controller.signal.aborted) {
+      if (resumeGate) {
+        await resumeGate.promise;
+        continue;
+      }
+      const key = queue.shift();
+      if (!key) break;
+      if (jitterMs > 0) {
+        await sleep(jitterMs / 3 + Math.random() * jitterMs * 2 / 3);
+        if (controller.signal.aborted) break;
+        // 延迟期间被暂停时放回队首，恢复后再处理
+        if (resumeGate) {
+          queue.unshift(key);
+          continue;
+        }
+      }
+      try {
+        const result = await options.run(key, controller.signal);
+        if (options.isFailed(result)) progress.failed++;
+        else progress.done++;
+        options.onResult(key, result);
+      } catch (e) {
+        if (isAbortError(e) || controller.signal.aborted) break;
+        progress.failed++;
+        options.onResult(key, options.fallback);
+      }
+      report();
+    }
+  };
+
+  const pause = () => {
+    if (progress.status !== 'running') return;
+    let release = () => {};
+    const promise = new Promise<void>(resolve => { release = resolve; });
+    resumeGate = { promise, release };
+    progress.status = 'paused';
+    wakeSleepers();
+    report();
+  };
+
+  const resume = () => {
+    if (progress.status !== 'paused' || !resumeGate) return;
+    const gate = resumeGate;
+    resumeGate = null;
+    gate.release();
+    progress.status = 'running';
+    report();
+  };
+
+  const cancel = () => {
+    if (progress.status === 'cancelled' || progress.status === 'finished') return;
+    controller.abort();
+    wakeSleepers();
+    progress.status = 'cancelled';
+    resumeGate?.release();
+    resumeGate = null;
+    report();
+  };
+
+  report();
+  const workerCount = Math.max(1, Math.min(options.concurrency, MAX_CONCURRENCY, keys.length));
+  const finished = Promise.all(Array.from({ length: workerCount }, runWorker)).then(() => {
+    if (progress.status !== 'cancelled') progress.status = 'finished';
+    report();
+    return { ...progress };
+  });
+
+  return { pause, resume, cancel, finished };
+};
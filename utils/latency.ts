@@ -0,0 +1,116 @@
+import { IpEntry, LatencySettings, NodeMetrics } from '../types';
+import { isIpv6 } from './formatter';
+
+/**
+ * 浏览器内延迟测试：
+ * 浏览器无法发起原始 TCP 连接，只能通过 fetch / Image / WebSocket 对 https://ip:port 发起请求，
+ * 以请求结束的耗时近似为往返延迟。直连 IP 时证书校验必然失败，浏览器也不区分证书错误与连接被拒绝，
+ * 因此出错的请求只有耗时达到 errorFloorMs（完成 TCP + TLS 握手所需的最短时间）才视为可达，
+ * 更快的错误多为连接被拒绝或请求被拦截，视为不可达；超时时间内没有任何响应同样不可达。
+ * 不支持可配置的 Host / SNI（仅路径可配置）：浏览器禁止脚本设置 Host 头，而把 URL 中的 IP 换成域名
+ * 会经 DNS 解析到其他地址，测到的不再是该节点，因此探测始终直连 IP；按域名测速需借助外部工具并导入其结果。
+ */
+export const DEFAULT_LATENCY_SETTINGS: LatencySettings = {
+  method: 'fetch',
+  path: '/cdn-cgi/trace',
+  timeoutMs: 2000,
+  attempts: 2,
+  errorFloorMs: 30,
+  concurrency: 6,
+  autoDeactivate: false,
+  thresholdMs: 500
+};
+
+export const LATENCY_METHOD_LABELS: Record<LatencySettings['method'], string> = {
+  fetch: 'Fetch',
+  image: 'Image',
+  websocket: 'WebSocket'
+};
+
+export const buildProbeUrl = (entry: IpEntry, settings: LatencySettings) => {
+  const host = isIpv6(entry.ip) ? `[${entry.ip}]` : entry.ip;
+  const scheme = settings.method === 'websocket' ? 'wss' : 'https';
+  const path = settings.path.startsWith('/') ? settings.path : `/${settings.path}`;
+  return `${scheme}://${host}:${entry.port}${path}`;
+};
+
+const withCacheBuster = (url: string) => `${url}${url.includes('?') ? '&' : '?'}_=${Date.now()}`;
+
+type ProbeOutcome = 'reached' | 'error' | 'timeout';
+
+/**
+ * 单次探测，返回请求成功、出错或超时；外部 signal 中止时抛出 AbortError
+ */
+const probe = (url: string, settings: LatencySettings, signal: AbortSignal): Promise<ProbeOutcome> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+
+    let cleanup = () => {};
+    let settled = false;
+    const settle = (outcome: ProbeOutcome | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+      cleanup();
+      if (outcome === null) reject(new DOMException('Aborted', 'AbortError'));
+      else resolve(outcome);
+    };
+    const onAbort = () => settle(null);
+    const timer = setTimeout(() => settle('timeout'), settings.timeoutMs);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    if (settings.method === 'image') {
+      const img = new Image();
+      img.onload = () => settle('reached');
+      img.onerror = () => settle('error');
+      cleanup = () => { img.onload = img.onerror = null; img.src = ''; };
+      img.src = withCacheBuster(url);
+    } else if (settings.method === 'websocket') {
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(url);
+      } catch (e) {
+        settle('error');
+        return;
+      }
+      socket.onopen = () => settle('reached');
+      socket.onerror = () => settle('error');
+      cleanup = () => {
+        socket.onopen = socket.onerror = null;
+        socket.close();
+      };
+    } else {
+      const controller = new AbortController();
+      cleanup = () => controller.abort();
+      fetch(withCacheBuster(url), { mode: 'no-cors', cache: 'no-store', signal: controller.signal })
+        .then(() => settle('reached'), () => settle('error'));
+    }
+  });
+
+/**
+ * 测试单个节点，多次测试取最小延迟
+ */
+export async function measureLatency(entry: IpEntry, settings: LatencySettings, signal: AbortSignal): Promise<NodeMetrics> {
+  const url = buildProbeUrl(entry, settings);
+  let best: number | undefined;
+
+  for (let i = 0; i < Math.max(1, settings.attempts); i++) {
+    const start = performance.now();
+    const outcome = await probe(url, settings, signal);
+    const rtt = Math.round(performance.now() - start);
+    if (outcome === 'reached' || (outcome === 'error' && rtt >= settings.errorFloorMs)) {
+      best = best === undefined ? rtt : Math.min(best, rtt);
+    }
+  }
+
+  return best === undefined
+    ? { timedOut: true, checkedAt: Date.now() }
+    : { latency: best, checkedAt: Date.now() };
+}
+
+/**
+ * 超时或延迟高于阈值视为不合格
+ */
+export const exceedsLatencyThreshold = (metrics: NodeMetrics | undefined, thresholdMs: number) =>
+  !!metrics && (metrics.timedOut || (metrics.latency !== undefined && metrics.latency > thresholdMs));
@@ -0,0 +1,242 @@
+import { dump as dumpYaml } from 'js-yaml';
+import { IpEntry } from '../types';
+import { renderPattern, isIpv6 } from './formatter';
+
+export const DEFAULT_REMARK_PATTERN = '{region}-{index}';
+
+/**
+ * 按 UTF-8 编码为 Base64，urlSafe 时去除填充并替换 +/
+ */
+export const encodeBase64 = (text: string, urlSafe = false): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  const encoded = btoa(binary);
+  return urlSafe ? encoded.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '') : encoded;
+};
+
+/**
+ * 只有从分享链接 / 订阅导入、带有协议与凭据的条目才能还原为链接
+ */
+export const canBuildLink = (entry: IpEntry): boolean => !!entry.protocol && !!entry.auth;
+
+/**
+ * 生成节点备注：按模板渲染后去掉首尾多余的分隔符，为空时回退到 ip:port
+ */
+export const buildRemark = (entry: IpEntry, pattern: string, index: number): string => {
+  const remark = renderPattern(entry, pattern, index).replace(/^[-_\s#|]+|[-_\s#|]+$/g, '');
+  return remark || `${entry.ip}:${entry.port}`;
+};
+
+// userinfo 中允许出现 ":"（例如 tuic 的 uuid:password）
+const encodeUserInfo = (text: string): string => encodeURIComponent(text).replace(/%3A/gi, ':');
+
+const formatHost = (ip: string): string => isIpv6(ip) ? `[${ip}]` : ip;
+
+const buildQuery = (params?: Record<string, string>): string => {
+  if (!params || Object.keys(params).length === 0) return '';
+  return `?${new URLSearchParams(params).toString()}`;
+};
+
+/**
+ * 还原分享链接，remark 替换链接中的原始备注
+ * 1. vmess://base64(JSON)
+ * 2. ss://base64url(method:password)@host:port (SIP002)
+ * 3. 其余协议：protocol://auth@host:port[/path][?query]#remark
+ */
+export const buildShareLink = (entry: IpEntry, remark: string): string | null => {
+  if (!canBuildLink(entry)) return null;
+
+  const protocol = entry.protocol!;
+  const auth = entry.auth!;
+
+  if (protocol === 'vmess') {
+    const config = {
+      v: '2',
+      ...entry.params,
+      ps: remark,
+      add: entry.ip,
+      port: entry.port,
+      id: auth,
+      path: entry.path || ''
+    };
+    return `vmess://${encodeBase64(JSON.stringify(config))}`;
+  }
+
+  const userInfo = protocol === 'ss' ? encodeBase64(auth, true) : encodeUserInfo(auth);
+  return `${protocol}://${userInfo}@${formatHost(entry.ip)}:${entry.port}${entry.path || ''}${buildQuery(entry.params)}#${encodeURIComponent(remark)}`;
+};
+
+/**
+ * 批量生成分享链接，无法还原的条目会被跳过
+ */
+export const buildShareLinks = (entries: IpEntry[], remarkPattern = DEFAULT_REMARK_PATTERN): string[] =>
+  entries
+    .filter(canBuildLink)
+    .map((entry, index) => buildShareLink(entry, buildRemark(entry, remarkPattern, index)))
+    .filter((link): link is string => !!link);
+
+/**
+ * 通用订阅格式：所有链接按行拼接后整体 Base64
+ */
+export const buildSubscription = (entries: IpEntry[], remarkPattern = DEFAULT_REMARK_PATTERN): string =>
+  encodeBase64(buildShareLinks(entries, remarkPattern).join('\n'));
+
+const CLASH_PROTOCOLS = ['vmess', 'vless', 'trojan', 'ss', 'hysteria2', 'tuic'];
+
+// SIP002 插件名与 Clash 插件名的对应关系
+const SS_PLUGIN_ALIASES: Record<string, string> = { 'obfs-local': 'obfs', 'simple-obfs': 'obfs' };
+const SS_PLUGIN_OPT_ALIASES: Record<string, string> = { obfs: 'mode', 'obfs-host': 'host' };
+
+const toClashProxy = (entry: IpEntry, name: string): Record<string, unknown> | null => {
+  const protocol = entry.protocol!;
+  if (!CLASH_PROTOCOLS.includes(protocol)) return null;
+
+  const params = entry.params || {};
+  const auth = entry.auth!;
+  const proxy: Record<string, unknown> = {
+    name,
+    type: protocol,
+    server: entry.ip,
+    port: Number(entry.port)
+  };
+  const set = (key: string, value: unknown) => {
+    if (value !== undefined && value !== null && value !== '') proxy[key] = value;
+  };
+
+  if (protocol === 'ss') {
+    const sep = auth.indexOf(':');
+    set('cipher', auth.slice(0, sep));
+    set('password', auth.slice(sep + 1));
+    if (params.plugin) {
+      const [plugin, ...opts] = params.plugin.split(';');
+      set('plugin', SS_PLUGIN_ALIASES[plugin] || plugin);
+      const pluginOpts: Record<string, string> = {};
+      opts.forEach(opt => {
+        const [key, ...value] = opt.split('=');
+        pluginOpts[SS_PLUGIN_OPT_ALIASES[key] || key] = value.join('=');
+      });
+      if (opts.length > 0) set('plugin-opts', pluginOpts);
+    }
+    return proxy;
+  }
+
+  let network: string | undefined;
+  let host: string | undefined;
+  let path: string | undefined;
+  let serviceName: string | undefined;
+
+  if (protocol === 'vmess') {
+    set('uuid', auth);
+    set('alterId', Number(params.aid || 0));
+    set('cipher', params.scy || 'auto');
+    if (params.tls === 'tls') set('tls', true);
+    set('servername', params.sni);
+    network = params.net;
+    host = params.host;
+    path = entry.path;
+    serviceName = network === 'grpc' ? entry.path : undefined;
+  } else {
+    if (protocol === 'vless') set('uuid', auth);
+    else if (protocol === 'tuic') {
+      const [uuid, ...password] = auth.split(':');
+      set('uuid', uuid);
+      set('password', password.join(':'));
+    } else set('password', auth);
+
+    const security = params.security;
+    if (protocol === 'vless' && (security === 'tls' || security === 'reality')) set('tls', true);
+    set(protocol === 'vless' ? 'servername' : 'sni', params.sni || params.peer);
+    set('flow', params.flow);
+    set('client-fingerprint', params.fp);
+    if (params.allowInsecure === '1' || params.insecure === '1') set('skip-cert-verify', true);
+    if (security === 'reality') {
+      set('reality-opts', { 'public-key': params.pbk, ...(params.sid ? { 'short-id': params.sid } : {}) });
+    }
+    if (protocol === 'hysteria2') {
+      set('obfs', params.obfs);
+      set('obfs-password', params['obfs-password']);
+    }
+    network = params.type;
+    host = params.host;
+    path = params.path;
+    serviceName = params.serviceName;
+  }
+
+  if (params.alpn) set('alpn', params.alpn.split(','));
+  if (network && network !== 'tcp') set('network', network);
+  if (network === 'ws') {
+    set('ws-opts', { ...(path ? { path } : {}), ...(host ? { headers: { Host: host } } : {}) });
+  } else if (network === 'grpc') {
+    set('grpc-opts', { 'grpc-service-name': serviceName || '' });
+  } else if (network === 'h2') {
+    set('h2-opts', { ...(path ? { path } : {}), ...(host ? { host: [host] } : {}) });
+  }
+
+  return proxy;
+};
+
+/**
+ * Clash / Mihomo 的 proxies: 片段，节点名称重复时自动追加序号
+ */
+export const buildClashYaml = (entries: IpEntry[], remarkPattern = DEFAULT_REMARK_PATTERN): string => {
+  const usedNames = new Map<string, number>();
+  const proxies = entries
+    .filter(canBuildLink)
+    .map((entry, index) => {
+      const base = buildRemark(entry, remarkPattern, index);
+      const count = usedNames.get(base) || 0;
+      usedNames.set(base, count + 1);
+      return toClashProxy(entry, count > 0 ? `${base} ${count + 1}` : base);
+    })
+    .filter((proxy): proxy is Record<string, unknown> => !!proxy);
+
+  return dumpYaml({ proxies }, { lineWidth: -1 });
+};
+
+// 需要携带 Host 头的传输方式
+const HTTP_TRANSPORTS = ['ws', 'httpupgrade', 'h2', 'http', 'xhttp', 'splithttp'];
+
+const isDomain = (host: string): boolean => !isIpv6(host) && !/^(\d{1,3}\.){3}\d{1,3}$/.test(host);
+
+/**
+ * 节点地址为域名时补全 SNI 与 Host，保证地址换成 IP 后仍可按原域名握手；
+ * 返回补全后的 params（不修改原条目）
+ */
+export const pinDomainParams = (entry: IpEntry): Record<string, string> | undefined => {
+  const params = { ...entry.params };
+
+  if (entry.protocol && isDomain(entry.ip)) {
+    const domain = entry.ip;
+    if (entry.protocol === 'vmess') {
+      if (params.tls === 'tls' && !params.sni) params.sni = domain;
+      if (HTTP_TRANSPORTS.includes(params.net) && !params.host) params.host = domain;
+    } else {
+      const hasTls = params.security === 'tls' || params.security === 'reality'
+        || (entry.protocol === 'trojan' && params.security !== 'none');
+      if (hasTls && !params.sni) params.sni = domain;
+      if (HTTP_TRANSPORTS.includes(params.type) && !params.host) params.host = domain;
+    }
+  }
+
+  return Object.keys(params).length > 0 ? params : undefined;
+};
+
+/**
+ * 模板链接批量套用：
+ * 以模板节点为基础，逐个替换为列表条目的 IP / 端口 / 地区，
+ * 模板地址为域名时自动补全 SNI 与 Host
+ */
+export const fanOutTemplate = (template: IpEntry, entries: IpEntry[]): IpEntry[] => {
+  const params = pinDomainParams(template);
+
+  return entries.map(entry => ({
+    ...template,
+    id: entry.id,
+    ip: entry.ip,
+    port: entry.port,
+    region: entry.region,
+    active: entry.active,
+    params
+  }));
+};
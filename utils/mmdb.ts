@@ -0,0 +1,172 @@
+import { parseIpv4, parseIpv6 } from './ip';
+
+/**
+ * MaxMind DB (.mmdb) 只读解析器
+ * 格式说明: https://maxmind.github.io/MaxMind-DB/
+ */
+const METADATA_MARKER = [0xab, 0xcd, 0xef, ...Array.from('MaxMind.com', c => c.charCodeAt(0))];
+const METADATA_SEARCH_LIMIT = 128 * 1024;
+const DATA_SECTION_SEPARATOR = 16;
+
+export interface MmdbMetadata {
+  node_count: number;
+  record_size: number;
+  ip_version: number;
+  database_type: string;
+  build_epoch?: number;
+}
+
+export interface MmdbReader {
+  metadata: MmdbMetadata;
+  lookup: (ip: string) => any | null;
+}
+
+const findMetadataStart = (bytes: Uint8Array): number => {
+  const stop = Math.max(0, bytes.length - METADATA_SEARCH_LIMIT);
+  for (let i = bytes.length - METADATA_MARKER.length; i >= stop; i--) {
+    if (METADATA_MARKER.every((b, j) => bytes[i + j] === b)) return i + METADATA_MARKER.length;
+  }
+  return -1;
+};
+
+/**
+ * 数据区解码器，pointerBase 为指针的相对起点
+ */
+const createDecoder = (bytes: Uint8Array, pointerBase: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const textDecoder = new TextDecoder();
+
+  const readUint = (offset: number, size: number): number => {
+    let value = 0;
+    for (let i = 0; i < size; i++) value = value * 256 + bytes[offset + i];
+    return value;
+  };
+
+  const decode = (offset: number): [any, number] => {
+    const ctrl = bytes[offset++];
+    let type = ctrl >> 5;
+
+    if (type === 1) {
+      const sizeBits = (ctrl >> 3) & 0x3;
+      const prefix = ctrl & 0x7;
+      let pointer: number;
+      if (sizeBits === 0) pointer = (prefix << 8) | bytes[offset];
+      else if (sizeBits === 1) pointer = ((prefix << 16) | readUint(offset, 2)) + 2048;
+      else if (sizeBits === 2) pointer = prefix * 0x1000000 + readUint(offset, 3) + 526336;
+      else pointer = readUint(offset, 4);
+      const [value] = decode(pointerBase + pointer);
+      return [value, offset + sizeBits + 1];
+    }
+
+    if (type === 0) type = 7 + bytes[offset++];
+
+    let size = ctrl & 0x1f;
+    if (size === 29) size = 29 + bytes[offset++];
+    else if (size === 30) { size = 285 + readUint(offset, 2); offset += 2; }
+    else if (size === 31) { size = 65821 + readUint(offset, 3); offset += 3; }
+
+    switch (type) {
+      case 2: return [textDecoder.decode(bytes.subarray(offset, offset + size)), offset + size];
+      case 3: return [view.getFloat64(offset), offset + 8];
+      case 4: return [bytes.slice(offset, offset + size), offset + size];
+      case 5:
+      case 6:
+      case 9:
+      case 10: return [readUint(offset, size), offset + size];
+      case 7: {
+        const map: Record<string, any> = {};
+        for (let i = 0; i < size; i++) {
+          const [key, afterKey] = decode(offset);
+          const [value, afterValue] = decode(afterKey);
+          map[key] = value;
+          offset = afterValue;
+        }
+        return [map, offset];
+      }
+      case 8: return [size === 0 ? 0 : (readUint(offset, size) << (32 - size * 8)) >> (32 - size * 8), offset + size];
+      case 11: {
+        const list: any[] = [];
+        for (let i = 0; i < size; i++) {
+          const [value, next] = decode(offset);
+          list.push(value);
+          offset = next;
+        }
+        return [list, offset];
+      }
+      case 14: return [size !== 0, offset];
+      case 15: return [view.getFloat32(offset), offset + 4];
+      default: throw new Error(`Unsupported MMDB data type ${type}`);
+    }
+  };
+
+  return (offset: number) => decode(offset)[0];
+};
+
+const ipToBits = (ip: string): { bits: number[]; version: 4 | 6 } | null => {
+  const v4 = parseIpv4(ip);
+  if (v4 !== null) {
+    return { version: 4, bits: Array.from({ length: 32 }, (_, i) => (v4 >>> (31 - i)) & 1) };
+  }
+  const v6 = parseIpv6(ip);
+  if (v6 !== null) {
+    return { version: 6, bits: Array.from({ length: 128 }, (_, i) => Number((v6 >> BigInt(127 - i)) & 1n)) };
+  }
+  return null;
+};
+
+/**
+ * 解析 mmdb 文件，格式不正确时抛出异常
+ */
+export const createMmdbReader = (buffer: ArrayBuffer): MmdbReader => {
+  const bytes = new Uint8Array(buffer);
+  const metadataStart = findMetadataStart(bytes);
+  if (metadataStart < 0) throw new Error('不是有效的 MaxMind DB 文件');
+
+  const metadata: MmdbMetadata = createDecoder(bytes, metadataStart)(metadataStart);
+  const { node_count: nodeCount, record_size: recordSize } = metadata;
+  if (![24, 28, 32].includes(recordSize)) throw new Error(`不支持的 record_size: ${recordSize}`);
+
+  const nodeBytes = recordSize / 4;
+  const treeSize = nodeBytes * nodeCount;
+  const dataStart = treeSize + DATA_SECTION_SEPARATOR;
+  const decodeData = createDecoder(bytes, dataStart);
+
+  const readRecord = (node: number, bit: number): number => {
+    const base = node * nodeBytes;
+    if (recordSize === 24) {
+      const o = base + bit * 3;
+      return (bytes[o] << 16) | (bytes[o + 1] << 8) | bytes[o + 2];
+    }
+    if (recordSize === 28) {
+      const middle = bytes[base + 3];
+      return bit === 0
+        ? ((middle & 0xf0) << 20) | (bytes[base] << 16) | (bytes[base + 1] << 8) | bytes[base + 2]
+        : ((middle & 0x0f) << 24) | (bytes[base + 4] << 16) | (bytes[base + 5] << 8) | bytes[base + 6];
+    }
+    const o = base + bit * 4;
+    return ((bytes[o] << 24) >>> 0) + (bytes[o + 1] << 16) + (bytes[o + 2] << 8) + bytes[o + 3];
+  };
+
+  // IPv6 库中 IPv4 地址位于 ::/96 子树
+  let ipv4Start = 0;
+  if (metadata.ip_version === 6) {
+    for (let i = 0; i < 96 && ipv4Start < nodeCount; i++) ipv4Start = readRecord(ipv4Start, 0);
+  }
+
+  const lookup = (ip: string): any | null => {
+    const parsed = ipToBits(ip);
+    if (!parsed) return null;
+    if (parsed.version === 6 && metadata.ip_version === 4) return null;
+
+    let node = parsed.version === 4 ? ipv4Start : 0;
+    for (const bit of parsed.bits) {
+      if (node >= nodeCount) break;
+      node = readRecord(node, bit);
+    }
+
+    if (node <= nodeCount) return null;
+    return decodeData(treeSize + (node - nodeCount));
+  };
+
+  return { metadata, lookup };
+};
@@ -0,0 +1,206 @@
+import { createMmdbReader } from './mmdb';
+import { ipToBigInt, parseCidr, IpRange, IpVersion } from './ip';
+import { idbGet, idbSet, idbDelete } from './idb';
+import { toGeoDetails } from './geoDetails';
+import { GeoDetails } from '../types';
+
+/**
+ * 离线地理位置库：
+ * 1. 支持 MaxMind GeoLite2 / 兼容格式的 .mmdb
+ * 2. 支持 CIDR,国家 或 起始IP,结束IP,国家 形式的 CSV
+ * 原始文件保存在 IndexedDB 中，页面加载时自动恢复
+ */
+const IDB_KEY = 'offline-geo-db';
+
+export type OfflineDbKind = 'mmdb' | 'csv';
+
+export interface OfflineDbInfo {
+  name: string;
+  kind: OfflineDbKind;
+  size: number;
+  records: number; // CSV 为区间条数，mmdb 为搜索树节点数
+  importedAt: number;
+}
+
+interface StoredOfflineDb {
+  info: OfflineDbInfo;
+  data: ArrayBuffer;
+}
+
+export interface OfflineGeoResult {
+  country: string;
+  details?: GeoDetails;
+}
+
+interface OfflineResolver {
+  records: number;
+  lookup: (ip: string) => OfflineGeoResult | null;
+}
+
+let activeResolver: OfflineResolver | null = null;
+let activeInfo: OfflineDbInfo | null = null;
+
+const extractCountry = (record: any): string | null => {
+  if (!record || typeof record !== 'object') return null;
+  const code = record.country?.iso_code
+    ?? record.registered_country?.iso_code
+    ?? record.country_code
+    ?? (typeof record.country === 'string' ? record.country : null);
+  return code ? String(code).toUpperCase() : null;
+};
+
+// GeoLite2-City / ASN 等库附带的网络信息
+const extractDetails = (record: any): GeoDetails | undefined => {
+  if (!record || typeof record !== 'object') return undefined;
+  return toGeoDetails({
+    asn: record.autonomous_system_number ?? record.asn,
+    org: record.autonomous_system_organization ?? record.isp ?? record.organization ?? record.as_name,
+    city: record.city?.names?.en ?? (typeof record.city === 'string' ? record.city : undefined),
+    hosting: record.traits?.is_hosting_provider ?? record.is_hosting
+  });
+};
+
+const buildMmdbResolver = (buffer: ArrayBuffer): OfflineResolver => {
+  const reader = createMmdbReader(buffer);
+  return {
+    records: reader.metadata.node_count,
+    lookup: ip => {
+      const record = reader.lookup(ip);
+      const country = extractCountry(record);
+      return country ? { country, details: extractDetails(record) } : null;
+    }
+  };
+};
+
+interface CountryRange {
+  start: bigint;
+  end: bigint;
+  code: string;
+}
+
+const buildCsvResolver = (text: string): OfflineResolver => {
+  const ranges: Record<IpVersion, CountryRange[]> = { 4: [], 6: [] };
+
+  text.split(/\r?\n/).forEach(line => {
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    if (cells.length < 2) return;
+
+    let range: IpRange | null = null;
+    let code: string | undefined;
+
+    if (cells[0].includes('/')) {
+      range = parseCidr(cells[0]);
+      code = cells[1];
+    } else if (cells.length >= 3) {
+      const start = ipToBigInt(cells[0]);
+      const end = ipToBigInt(cells[1]);
+      if (start && end && start.version === end.version) {
+        range = { version: start.version, start: start.value, end: end.value };
+      }
+      code = cells[2];
+    }
+
+    if (range && code && /^[A-Za-z]{2}$/.test(code)) {
+      ranges[range.version].push({ start: range.start, end: range.end, code: code.toUpperCase() });
+    }
+  });
+
+  ranges[4].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  ranges[6].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  const records = ranges[4].length + ranges[6].length;
+  if (records === 0) throw new Error('CSV 中没有识别到 CIDR/IP 段与国家代码');
+
+  return {
+    records,
+    lookup: ip => {
+      const parsed = ipToBigInt(ip);
+      if (!parsed) return null;
+      const list = ranges[parsed.version];
+
+      // 二分查找最后一个 start <= ip 的区间
+      let low = 0;
+      let high = list.length - 1;
+      let found = -1;
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (list[mid].start <= parsed.value) { found = mid; low = mid + 1; }
+        else high = mid - 1;
+      }
+      return found >= 0 && list[found].end >= parsed.value ? { country: list[found].code } : null;
+    }
+  };
+};
+
+const buildResolver = (kind: OfflineDbKind, data: ArrayBuffer): OfflineResolver =>
+  kind === 'mmdb' ? buildMmdbResolver(data) : buildCsvResolver(new TextDecoder().decode(data));
+
+const detectKind = (name: string, data: ArrayBuffer): OfflineDbKind => {
+  if (/\.mmdb$/i.test(name)) return 'mmdb';
+  if (/\.(csv|txt)$/i.test(name)) return 'csv';
+  try {
+    createMmdbReader(data);
+    return 'mmdb';
+  } catch (e) {
+    return 'csv';
+  }
+};
+
+export const getOfflineDbInfo = (): OfflineDbInfo | null => activeInfo;
+
+/**
+ * 查询离线库，未加载或未命中返回 null
+ */
+export const lookupOfflineGeo = (ip: string): OfflineGeoResult | null => {
+  if (!activeResolver) return null;
+  try {
+    return activeResolver.lookup(ip);
+  } catch (e) {
+    console.warn('Offline geo lookup failed', e);
+    return null;
+  }
+};
+
+/**
+ * 导入用户提供的数据库文件，格式错误时抛出异常
+ */
+export const importOfflineDatabase = async (file: File): Promise<OfflineDbInfo> => {
+  const data = await file.arrayBuffer();
+  const kind = detectKind(file.name, data);
+  const resolver = buildResolver(kind, data);
+
+  const info: OfflineDbInfo = {
+    name: file.name,
+    kind,
+    size: data.byteLength,
+    records: resolver.records,
+    importedAt: Date.now()
+  };
+
+  await idbSet(IDB_KEY, { info, data } as StoredOfflineDb);
+  activeResolver = resolver;
+  activeInfo = info;
+  return info;
+};
+
+/**
+ * 从 IndexedDB 恢复上次导入的数据库
+ */
+export const restoreOfflineDatabase = async (): Promise<OfflineDbInfo | null> => {
+  try {
+    const stored = await idbGet<StoredOfflineDb>(IDB_KEY);
+    if (!stored) return null;
+    activeResolver = buildResolver(stored.info.kind, stored.data);
+    activeInfo = stored.info;
+    return activeInfo;
+  } catch (e) {
+    console.error('Offline geo database corrupted', e);
+    return null;
+  }
+};
+
+export const clearOfflineDatabase = async (): Promise<void> => {
+  activeResolver = null;
+  activeInfo = null;
+  await idbDelete(IDB_KEY);
+};
@@ -1,12 +1,17 @@
-import { IpEntry } from '../types';
+import { IpEntry, CidrImportOptions } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { load as loadYaml } from 'js-yaml';
+import { parseSpeedTestText } from './speedtest';
+import { validateHost, validateHostPort, validatePort } from './validate';
+import { parseCidr } from './ip';
+import { DEFAULT_CIDR_OPTIONS, CIDR_TOTAL_LIMIT, checkExpandLimit, countRangeAddresses, pickRangeAddresses } from './cidr';
 
 /**
  * 核心清洗逻辑：只保留地区代码
  * 例如 "HK-8443-Trojan" -> "HK"
  * 例如 "JP_10443_SS" -> "JP"
  */
-const sanitizeRegion = (text: string): string => {
+export const sanitizeRegion = (text: string): string => {
   if (!text) return '';
   // 按照常见的分割符（减号、下划线、空格、正斜杠、竖线）拆分，取第一段
   const firstPart = text.split(/[-_ \/\|]/)[0];
@@ -14,59 +19,340 @@ const sanitizeRegion = (text: string): string => {
 };
 
 /**
- * 增强型解析逻辑：
- * 1. 优先识别协议链接 (trojan://, ss://, vless://, vmess://)
- * 2. 识别标准 IP:Port 和 IP,Port 格式
- * 3. 兼容 IPv4、IPv6
+ * 解码 URL 片段，遇到非法编码时原样返回
  */
-export const parseBatchInput = (text: string): IpEntry[] => {
-  if (!text) return [];
+const safeDecode = (text: string): string => {
+  try {
+    return decodeURIComponent(text);
+  } catch (e) {
+    return text;
+  }
+};
+
+/**
+ * 解析查询字符串为键值对，例如 "?sni=a.com&type=ws" -> { sni: 'a.com', type: 'ws' }
+ */
+const parseQuery = (query: string): Record<string, string> => {
+  const params: Record<string, string> = {};
+  new URLSearchParams(query).forEach((value, key) => {
+    params[key] = value;
+  });
+  return params;
+};
+
+/**
+ * 解码 Base64 / Base64URL（允许缺省填充），按 UTF-8 还原文本
+ * 非法输入返回 null
+ */
+const decodeBase64 = (text: string): string | null => {
+  const normalized = text.trim().replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (!normalized || !/^[A-Za-z0-9+\/]+$/.test(normalized)) return null;
+  try {
+    const binary = atob(normalized + '='.repeat((4 - normalized.length % 4) % 4));
+    const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (e) {
+    return null;
+  }
+};
 
-  const entries: IpEntry[] = [];
-  const seen = new Set<string>();
+/**
+ * 拆分 "host:port"，兼容 "[v6]:port" 与裸 IPv6 "2001::1:443"
+ */
+const splitHostPort = (text: string): { ip: string; port: string } | null => {
+  const match = text.trim().match(/^\[?([\w\.:-]+?)\]?:(\d{1,5})$/);
+  return match ? { ip: match[1], port: match[2] } : null;
+};
+
+type DecodedNode = Omit<IpEntry, 'id' | 'active'>;
+
+export type ImportFormat = 'text' | 'base64' | 'clash' | 'singbox' | 'csv' | 'json' | 'speedtest';
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  text: '文本/链接',
+  base64: 'Base64 订阅',
+  clash: 'Clash YAML',
+  singbox: 'sing-box JSON',
+  csv: 'CSV 文件',
+  json: '备份 JSON',
+  speedtest: 'CloudflareST 结果'
+};
+
+/**
+ * 条目在导入内容中的位置：文本按行号，订阅容器按节点序号
+ */
+export interface ImportOrigin {
+  line?: number;
+  item?: number;
+  text: string; // 所在行或节点的原始内容
+}
+
+export type DiagnosticLevel = 'rejected' | 'skipped';
+
+export interface ImportDiagnostic extends ImportOrigin {
+  level: DiagnosticLevel; // rejected：地址、端口无效或被导入策略拒绝；skipped：未识别或重复
+  reason: string;
+}
+
+export interface ParseResult {
+  entries: IpEntry[];
+  // 各来源格式解析出的节点数（去重前）
+  sources: Partial<Record<ImportFormat, number>>;
+  diagnostics: ImportDiagnostic[];
+  origins: Record<string, ImportOrigin>; // 按条目 id 记录来源位置，供导入报告定位
+}
+
+export interface LocatedNode {
+  node: DecodedNode & { active?: boolean };
+  origin: ImportOrigin;
+}
+
+interface ExtractResult {
+  nodes: LocatedNode[];
+  diagnostics: ImportDiagnostic[];
+}
+
+export const formatOrigin = (origin: ImportOrigin): string =>
+  origin.line ? `第 ${origin.line} 行` : origin.item ? `第 ${origin.item} 项` : '';
+
+const MAX_ORIGIN_TEXT = 120;
+
+const clipText = (text: string) => (text.length > MAX_ORIGIN_TEXT ? `${text.slice(0, MAX_ORIGIN_TEXT)}…` : text);
+
+/**
+ * 按字符位置定位所在行（从 1 开始）
+ */
+const createLineLocator = (text: string) => {
+  const lines = text.split('\n');
+  const starts: number[] = [];
+  let offset = 0;
+  lines.forEach(line => {
+    starts.push(offset);
+    offset += line.length + 1;
+  });
+
+  const lineAt = (index: number): number => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (starts[mid] <= index) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  const originAt = (index: number): ImportOrigin => {
+    const line = lineAt(index);
+    return { line, text: clipText(lines[line - 1].trim()) };
+  };
+
+  return { lines, lineAt, originAt };
+};
+
+/**
+ * vmess://base64(JSON)
+ * JSON 字段: v, ps, add, port, id, aid, scy, net, type, host, path, tls, sni ...
+ * add/port/id/path/ps 映射到对应字段，其余字段原样保留在 params 中
+ */
+const decodeVmess = (payload: string): DecodedNode | null => {
+  const json = decodeBase64(payload);
+  if (!json) return null;
+
+  let config: Record<string, unknown>;
+  try {
+    config = JSON.parse(json);
+  } catch (e) {
+    return null;
+  }
+  if (!config || typeof config !== 'object' || !config.add || !config.port) return null;
+
+  const { add, port, id, path, ps, ...rest } = config;
+  const params: Record<string, string> = {};
+  Object.entries(rest).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') params[key] = String(value);
+  });
+
+  const remark = ps ? String(ps) : '';
+  return {
+    ip: String(add).replace(/[\[\]]/g, ''),
+    port: String(port),
+    region: sanitizeRegion(remark),
+    protocol: 'vmess',
+    auth: id ? String(id) : undefined,
+    path: path ? String(path) : undefined,
+    params: Object.keys(params).length > 0 ? params : undefined,
+    remark: remark || undefined
+  };
+};
+
+/**
+ * 旧版 ss://base64(method:password@host:port)#remark
+ */
+const decodeLegacySs = (payload: string, remark: string): DecodedNode | null => {
+  const decoded = decodeBase64(payload);
+  if (!decoded) return null;
+
+  const atIndex = decoded.lastIndexOf('@');
+  if (atIndex <= 0) return null;
+
+  const auth = decoded.slice(0, atIndex);
+  const target = splitHostPort(decoded.slice(atIndex + 1));
+  if (!target || !auth.includes(':')) return null;
+
+  return {
+    ...target,
+    region: sanitizeRegion(remark),
+    protocol: 'ss',
+    auth,
+    remark: remark || undefined
+  };
+};
+
+/**
+ * 文本解析引擎：
+ * 1. 解码 Base64 形式的 vmess:// 与旧版 ss:// 链接
+ * 2. 优先识别协议链接 (trojan://, ss://, vless://, vmess://)
+ * 3. 识别标准 IP:Port 和 IP,Port 格式
+ * 4. 兼容 IPv4、IPv6
+ * 5. CIDR 网段按选项完整展开或随机抽样
+ * 每个节点记录所在行号，没有识别出任何节点的非空行记为跳过
+ */
+const extractTextNodes = (text: string, cidrOptions: CidrImportOptions = DEFAULT_CIDR_OPTIONS): ExtractResult => {
+  const nodes: LocatedNode[] = [];
+  const diagnostics: ImportDiagnostic[] = [];
+  const { lines, lineAt, originAt } = createLineLocator(text);
+  const covered = new Set<number>();
+  const cover = (index: number, length: number) => {
+    for (let line = lineAt(index); line <= lineAt(index + Math.max(length - 1, 0)); line++) covered.add(line);
+  };
+
+  let remainingText = text;
+  // 已识别的片段按位置替换为等长空白，避免同样的文本在更前面出现时被误清除
+  const consume = (index: number, length: number) => {
+    cover(index, length);
+    remainingText = remainingText.slice(0, index) + ' '.repeat(length) + remainingText.slice(index + length);
+  };
+
+  /**
+   * 引擎零：解码 Base64 链接
+   * 匹配格式: vmess://base64(JSON) 与 ss://base64(method:password@host:port)#remark
+   * 无法解码的片段保持原样，交由后续引擎处理
+   */
+  const encodedPattern = /(vmess|ss):\/\/([A-Za-z0-9+\/=_-]+)(?:#([^\s]*))?(?=\s|$)/gi;
+
+  let encodedMatch;
+  while ((encodedMatch = encodedPattern.exec(text)) !== null) {
+    const remark = encodedMatch[3] ? safeDecode(encodedMatch[3]) : '';
+    const node = encodedMatch[1].toLowerCase() === 'vmess'
+      ? decodeVmess(encodedMatch[2])
+      : decodeLegacySs(encodedMatch[2], remark);
+
+    if (!node) continue;
+    nodes.push({ node, origin: originAt(encodedMatch.index) });
+    consume(encodedMatch.index, encodedMatch[0].length);
+  }
 
   /**
    * 引擎一：处理协议链接
-   * 匹配格式: protocol://[auth@]host:port[path/query]#remark
+   * 匹配格式: protocol://[auth@]host:port[/path][?query]#remark
    */
-  const protocolPattern = /(\w+):\/\/([^@\s]+@)?([\w\.-]+|\[[a-fA-F0-9:]+\]):(\d+)[^#\s]*#?([^\s\n\r]*)/g;
+  const protocolPattern = /(\w+):\/\/([^@\s]+@)?([\w\.-]+|\[[^\]\s]+\]):(\d+)(\/[^?#\s]*)?(\?[^#\s]*)?#?([^\s\n\r]*)/g;
+  const protocolText = remainingText;
   
   let match;
-  let remainingText = text;
-
-  while ((match = protocolPattern.exec(text)) !== null) {
+  while ((match = protocolPattern.exec(protocolText)) !== null) {
     const rawHost = match[3];
-    const ip = rawHost.replace(/[\[\]]/g, ''); // 移除 IPv6 的中括号以便统一显示
+    const ip = rawHost.replace(/[\[\]]/g, '').replace('%25', '%'); // 移除 IPv6 的中括号以便统一显示，URI 中的 zone 分隔符为 %25
     const port = match[4];
-    
-    let remark = '';
-    try {
-      remark = match[5] ? decodeURIComponent(match[5]) : '';
-    } catch (e) {
-      remark = match[5] || '';
+    const protocol = match[1].toLowerCase();
+    const remark = match[7] ? safeDecode(match[7]) : '';
+
+    let auth = match[2] ? safeDecode(match[2].slice(0, -1)) : undefined;
+    // SIP002: ss://base64url(method:password)@host:port
+    if (protocol === 'ss' && auth && !auth.includes(':')) {
+      const decoded = decodeBase64(auth);
+      if (decoded && decoded.includes(':')) auth = decoded;
     }
     
-    // 清洗备注，只保留地区
-    const cleanRegion = sanitizeRegion(remark);
-    
-    const key = `${ip}:${port}`;
-    if (!seen.has(key)) {
-      seen.add(key);
-      entries.push({
-        id: uuidv4(),
+    nodes.push({
+      node: {
         ip,
         port,
-        region: cleanRegion,
-        active: true
+        region: sanitizeRegion(remark), // 清洗备注，只保留地区
+        protocol,
+        auth,
+        path: match[5] ? safeDecode(match[5]) : undefined,
+        params: match[6] ? parseQuery(match[6]) : undefined,
+        remark: remark || undefined
+      },
+      origin: originAt(match.index)
+    });
+    consume(match.index, match[0].length);
+  }
+
+  /**
+   * 引擎二：处理 CIDR 网段，端口可选（缺省使用 cidrOptions.defaultPort）
+   * 匹配格式: 104.16.0.0/13、172.64.0.0/24:443、2606:4700::/120、[2606:4700::]/120:443、[2606:4700::/120]:443
+   * 同一行网段之后、下一个地址或网段之前的内容作为地区；所有网段合计最多生成 CIDR_TOTAL_LIMIT 个地址
+   */
+  const nextAddressPattern = /(?<![\w.])(?:(?:\d{1,3}\.){3}\d{1,3}|\[?[a-fA-F0-9]*:[a-fA-F0-9.]*:)/;
+  const cidrPattern = /(?<![\w.:\/\[])(?:\[([a-fA-F0-9:.]+)\/(\d{1,3})\]|\[([a-fA-F0-9:.]+)\]\/(\d{1,3})|((?:\d{1,3}\.){3}\d{1,3}|[a-fA-F0-9]*:[a-fA-F0-9.]*:[a-fA-F0-9:.]*)\/(\d{1,3}))(?![\d.\/])(?:[:|,](\d+))?/g;
+  const cidrText = remainingText;
+  let cidrBudget = CIDR_TOTAL_LIMIT;
+
+  let cidrMatch;
+  while ((cidrMatch = cidrPattern.exec(cidrText)) !== null) {
+    const address = cidrMatch[1] ?? cidrMatch[3] ?? cidrMatch[5];
+    const cidr = `${address}/${cidrMatch[2] ?? cidrMatch[4] ?? cidrMatch[6]}`;
+    const port = cidrMatch[7] ?? cidrOptions.defaultPort;
+    const origin = originAt(cidrMatch.index);
+    const lineEnd = cidrText.indexOf('\n', cidrPattern.lastIndex);
+    const lineRest = cidrText.substring(cidrPattern.lastIndex, lineEnd < 0 ? cidrText.length : lineEnd);
+    const nextAddress = lineRest.search(nextAddressPattern);
+    const rawRegion = (nextAddress < 0 ? lineRest : lineRest.slice(0, nextAddress))
+      .replace(/^[\s,;#|-]+/, '')
+      .split(/[,;]/)[0]
+      .trim();
+
+    consume(cidrMatch.index, cidrMatch[0].length);
+
+    const range = parseCidr(cidr);
+    if (!range) {
+      diagnostics.push({ ...origin, level: 'rejected', reason: `网段 ${cidr} 无效` });
+      continue;
+    }
+    const reason = validatePort(port) ?? (cidrOptions.mode === 'expand' ? checkExpandLimit(range) : null);
+    if (reason) {
+      diagnostics.push({ ...origin, level: 'rejected', reason });
+      continue;
+    }
+
+    const wanted = countRangeAddresses(range, cidrOptions);
+    if (wanted > cidrBudget) {
+      diagnostics.push({
+        ...origin,
+        level: 'skipped',
+        reason: cidrBudget > 0
+          ? `网段地址合计超过单次导入上限 ${CIDR_TOTAL_LIMIT}，${cidr} 仅生成 ${cidrBudget} 个（应为 ${wanted} 个）`
+          : `网段地址合计超过单次导入上限 ${CIDR_TOTAL_LIMIT}，${cidr} 未生成`
       });
+      if (cidrBudget === 0) continue;
     }
-    remainingText = remainingText.replace(match[0], ' '.repeat(match[0].length));
+
+    const region = sanitizeRegion(rawRegion);
+    const addresses = pickRangeAddresses(range, cidrOptions, cidrBudget);
+    cidrBudget -= addresses.length;
+    addresses.forEach(ip => {
+      nodes.push({ node: { ip, port, region }, origin });
+    });
   }
 
   /**
-   * 引擎二：处理标准 IP:Port 格式 (Fallback)
+   * 引擎三：处理标准 IP:Port 格式 (Fallback)
+   * 只做粗略匹配（IPv6 至少包含两个冒号，可带中括号与 %zone），地址与端口是否有效统一在 buildParseResult 中校验
    */
-  const standardPattern = /((?:\d{1,3}\.){3}\d{1,3}|\[?[a-fA-F0-9:]+\]?)\s*[:|,]\s*(\d{2,5})/g;
+  const standardPattern = /(?<![\w.])((?:\d{1,3}\.){3}\d{1,3}|\[[a-fA-F0-9:.]+(?:%[\w.~-]+)?\]|[a-fA-F0-9]*:[a-fA-F0-9.]*:[a-fA-F0-9:.]*(?:%[\w.~-]+)?)\s*[:|,]\s*(\d+)/g;
   const matches = [];
   
   let stdMatch;
@@ -74,6 +360,7 @@ export const parseBatchInput = (text: string): IpEntry[] => {
     matches.push({
       index: stdMatch.index,
       full: stdMatch[0],
+      bracketed: stdMatch[1].startsWith('['),
       ip: stdMatch[1].replace(/[\[\]]/g, ''),
       port: stdMatch[2],
       nextIndex: standardPattern.lastIndex
@@ -93,19 +380,350 @@ export const parseBatchInput = (text: string): IpEntry[] => {
       .trim();
 
     const cleanRegion = sanitizeRegion(rawRegion);
+    cover(current.index, current.full.length);
+    // 地区可能写在下一行，该行同样视为已识别
+    const regionOffset = remainingText.substring(current.nextIndex, endPos).search(/[^\s,;#|-]/);
+    if (rawRegion && regionOffset >= 0) cover(current.nextIndex + regionOffset, 1);
+
+    // 未压缩的完整 IPv6（8 组）缺少端口时，最后一组会被误当作端口，例如 "2001:db8:0:0:0:0:1:443"：
+    // 去掉"端口"后只剩 7 组不是有效地址，整体却是有效地址，此时拒绝；
+    // 带 "::" 的写法（如 "2001:db8::1:443"）本身有歧义，按 [2001:db8::1]:443 接受
+    if (!current.bracketed && current.ip.includes(':') && validateHost(current.ip) && !validateHost(`${current.ip}:${current.port}`)) {
+      diagnostics.push({ ...originAt(current.index), level: 'rejected', reason: 'IPv6 地址缺少端口，请使用 [地址]:端口 格式' });
+      continue;
+    }
 
-    const key = `${current.ip}:${current.port}`;
-    if (!seen.has(key)) {
-      seen.add(key);
-      entries.push({
-        id: uuidv4(),
+    nodes.push({
+      node: {
         ip: current.ip,
         port: current.port,
-        region: cleanRegion,
-        active: true
-      });
+        region: cleanRegion
+      },
+      origin: originAt(current.index)
+    });
+  }
+
+  lines.forEach((line, i) => {
+    if (line.trim() && !covered.has(i + 1)) {
+      diagnostics.push({ line: i + 1, text: clipText(line.trim()), level: 'skipped', reason: '未识别到 IP 与端口' });
+    }
+  });
+
+  return { nodes, diagnostics };
+};
+
+/**
+ * Clash / sing-box 节点的统一中间结构，再按分享链接的参数约定转换为 DecodedNode
+ */
+interface ProxyOutline {
+  protocol: string;
+  server: unknown;
+  port: unknown;
+  name?: unknown;
+  auth?: string;
+  network?: string;
+  host?: string;
+  path?: string;
+  serviceName?: string;
+  tls?: boolean;
+  sni?: string;
+  alpn?: string[] | string;
+  insecure?: boolean;
+  fingerprint?: string;
+  flow?: string;
+  realityPublicKey?: string;
+  realityShortId?: string;
+  alterId?: unknown;
+  cipher?: string; // 仅 vmess
+  plugin?: string; // 仅 ss，SIP002 plugin 参数
+}
+
+const outlineToNode = (outline: ProxyOutline): DecodedNode | null => {
+  if (!outline.server || !outline.port) return null;
+
+  const params: Record<string, string> = {};
+  const set = (key: string, value: unknown) => {
+    if (value !== undefined && value !== null && value !== '') params[key] = String(value);
+  };
+  const alpn = Array.isArray(outline.alpn) ? outline.alpn.join(',') : outline.alpn;
+  let path: string | undefined;
+
+  if (outline.protocol === 'vmess') {
+    // 与 vmess:// JSON 的字段保持一致
+    set('v', '2');
+    set('aid', outline.alterId ?? 0);
+    set('scy', outline.cipher);
+    set('net', outline.network || 'tcp');
+    set('host', outline.host);
+    set('tls', outline.tls ? 'tls' : '');
+    set('sni', outline.sni);
+    set('alpn', alpn);
+    set('fp', outline.fingerprint);
+    path = outline.network === 'grpc' ? outline.serviceName : outline.path;
+  } else {
+    set('type', outline.network);
+    set('security', outline.realityPublicKey ? 'reality' : outline.tls ? 'tls' : '');
+    set('sni', outline.sni);
+    set('host', outline.host);
+    set('path', outline.path);
+    set('serviceName', outline.serviceName);
+    set('flow', outline.flow);
+    set('fp', outline.fingerprint);
+    set('pbk', outline.realityPublicKey);
+    set('sid', outline.realityShortId);
+    set('alpn', alpn);
+    set('plugin', outline.plugin);
+    if (outline.insecure) set('allowInsecure', '1');
+  }
+
+  const remark = outline.name ? String(outline.name) : '';
+  return {
+    ip: String(outline.server).replace(/[\[\]]/g, ''),
+    port: String(outline.port),
+    region: sanitizeRegion(remark),
+    protocol: outline.protocol,
+    auth: outline.auth || undefined,
+    path: path || undefined,
+    params: Object.keys(params).length > 0 ? params : undefined,
+    remark: remark || undefined
+  };
+};
+
+type RawRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): RawRecord =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as RawRecord) : {};
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+
+const asAlpn = (value: unknown): string[] | string | undefined =>
+  Array.isArray(value) ? value.map(String) : asString(value);
+
+/**
+ * Clash / Mihomo proxies 条目
+ */
+const fromClashProxy = (value: unknown): DecodedNode | null => {
+  const proxy = asRecord(value);
+  if (!proxy.type) return null;
+
+  const protocol = String(proxy.type).toLowerCase();
+  const wsOpts = asRecord(proxy['ws-opts']);
+  const h2Opts = asRecord(proxy['h2-opts']);
+  const grpcOpts = asRecord(proxy['grpc-opts']);
+  const reality = asRecord(proxy['reality-opts']);
+
+  let plugin: string | undefined;
+  if (protocol === 'ss' && proxy.plugin) {
+    const opts = asRecord(proxy['plugin-opts']);
+    plugin = [proxy.plugin, ...Object.entries(opts).map(([k, v]) => `${k}=${v}`)].join(';');
+  }
+
+  return outlineToNode({
+    protocol,
+    server: proxy.server,
+    port: proxy.port,
+    name: proxy.name,
+    auth: protocol === 'ss' ? `${proxy.cipher}:${proxy.password}` : asString(proxy.uuid ?? proxy.password),
+    network: asString(proxy.network),
+    host: asString(asRecord(wsOpts.headers).Host) ?? asString(Array.isArray(h2Opts.host) ? h2Opts.host[0] : h2Opts.host),
+    path: asString(wsOpts.path ?? h2Opts.path),
+    serviceName: asString(grpcOpts['grpc-service-name']),
+    tls: Boolean(proxy.tls) || protocol === 'trojan',
+    sni: asString(proxy.servername ?? proxy.sni),
+    alpn: asAlpn(proxy.alpn),
+    insecure: Boolean(proxy['skip-cert-verify']),
+    fingerprint: asString(proxy['client-fingerprint']),
+    flow: asString(proxy.flow),
+    realityPublicKey: asString(reality['public-key']),
+    realityShortId: asString(reality['short-id']),
+    alterId: proxy.alterId,
+    cipher: asString(proxy.cipher),
+    plugin
+  });
+};
+
+/**
+ * sing-box outbounds 条目，direct / block / selector 等非代理类型会被忽略
+ */
+const SING_BOX_PROTOCOLS: Record<string, string> = {
+  shadowsocks: 'ss',
+  vmess: 'vmess',
+  vless: 'vless',
+  trojan: 'trojan',
+  hysteria2: 'hysteria2',
+  tuic: 'tuic'
+};
+
+const fromSingBoxOutbound = (value: unknown): DecodedNode | null => {
+  const outbound = asRecord(value);
+  const protocol = SING_BOX_PROTOCOLS[String(outbound.type)];
+  if (!protocol) return null;
+
+  const tls = asRecord(outbound.tls);
+  const transport = asRecord(outbound.transport);
+  const reality = asRecord(tls.reality);
+
+  let plugin: string | undefined;
+  if (protocol === 'ss' && outbound.plugin) {
+    plugin = [outbound.plugin, outbound.plugin_opts].filter(Boolean).join(';');
+  }
+
+  return outlineToNode({
+    protocol,
+    server: outbound.server,
+    port: outbound.server_port,
+    name: outbound.tag,
+    auth: protocol === 'ss' ? `${outbound.method}:${outbound.password}` : asString(outbound.uuid ?? outbound.password),
+    network: asString(transport.type),
+    host: asString(asRecord(transport.headers).Host) ?? asString(Array.isArray(transport.host) ? transport.host[0] : transport.host),
+    path: asString(transport.path),
+    serviceName: asString(transport.service_name),
+    tls: Boolean(tls.enabled),
+    sni: asString(tls.server_name),
+    alpn: asAlpn(tls.alpn),
+    insecure: Boolean(tls.insecure),
+    fingerprint: asString(asRecord(tls.utls).fingerprint),
+    flow: asString(outbound.flow),
+    realityPublicKey: reality.enabled ? asString(reality.public_key) : undefined,
+    realityShortId: reality.enabled ? asString(reality.short_id) : undefined,
+    alterId: outbound.alter_id,
+    cipher: protocol === 'vmess' ? asString(outbound.security) : undefined,
+    plugin
+  });
+};
+
+// sing-box 出站至少带有 type 与 server；顶层数组中没有这样的项时不按 sing-box 处理
+const looksLikeOutbounds = (items: unknown[]): boolean =>
+  items.some(item => {
+    const record = asRecord(item);
+    return typeof record.type === 'string' && record.server !== undefined;
+  });
+
+const describeItem = (item: unknown): string => {
+  if (!item || typeof item !== 'object') return String(item);
+  const record = item as RawRecord;
+  return String(record.name ?? record.tag ?? record.server ?? record.type ?? '');
+};
+
+/**
+ * 逐项转换容器中的节点，无法转换的项（direct / selector 等或缺少地址）记为跳过
+ */
+const locateItems = (items: unknown[], convert: (item: unknown) => DecodedNode | null): ExtractResult => {
+  const nodes: LocatedNode[] = [];
+  const diagnostics: ImportDiagnostic[] = [];
+  items.forEach((item, i) => {
+    const origin: ImportOrigin = { item: i + 1, text: clipText(describeItem(item)) };
+    const node = convert(item);
+    if (node) nodes.push({ node, origin });
+    else diagnostics.push({ ...origin, level: 'skipped', reason: '不是代理节点或缺少服务器地址' });
+  });
+  return { nodes, diagnostics };
+};
+
+/**
+ * 识别整段粘贴内容的容器格式：
+ * 1. JSON：sing-box outbounds（顶层数组需包含 type + server 的项）或 JSON 形式的 Clash proxies
+ * 2. YAML：包含顶层 proxies: 的 Clash / Mihomo 配置
+ * 3. Base64：整段为订阅 Blob，解码后按文本继续解析
+ * 无法识别时返回 null，按普通文本处理
+ */
+const detectContainer = (text: string): (ExtractResult & { format: ImportFormat }) | null => {
+  const trimmed = text.trim();
+
+  const speedtest = parseSpeedTestText(trimmed);
+  if (speedtest) {
+    return {
+      format: 'speedtest',
+      nodes: speedtest.map((node, i) => ({ node, origin: { item: i + 1, text: node.ip } })),
+      diagnostics: []
+    };
+  }
+
+  if (/^[\[{]/.test(trimmed)) {
+    try {
+      const doc: unknown = JSON.parse(trimmed);
+      const outbounds = Array.isArray(doc) ? (looksLikeOutbounds(doc) ? doc : null) : asRecord(doc).outbounds;
+      if (Array.isArray(outbounds)) {
+        return { format: 'singbox', ...locateItems(outbounds, fromSingBoxOutbound) };
+      }
+      const proxies = asRecord(doc).proxies;
+      if (Array.isArray(proxies)) {
+        return { format: 'clash', ...locateItems(proxies, fromClashProxy) };
+      }
+    } catch (e) {
+      // 不是合法 JSON，继续尝试其他格式
+    }
+  }
+
+  if (/^proxies\s*:/m.test(trimmed)) {
+    try {
+      const proxies = asRecord(loadYaml(trimmed)).proxies;
+      if (Array.isArray(proxies)) {
+        return { format: 'clash', ...locateItems(proxies, fromClashProxy) };
+      }
+    } catch (e) {
+      // 不是合法 YAML，按普通文本处理
+    }
+  }
+
+  const compact = trimmed.replace(/\s+/g, '');
+  if (compact.length >= 16 && /^[A-Za-z0-9+\/=_-]+$/.test(compact)) {
+    const decoded = decodeBase64(compact);
+    if (decoded && decoded.includes('://')) {
+      // 解码后的行号对用户没有意义，改为按订阅中的第几项展示
+      const { nodes, diagnostics } = extractTextNodes(decoded);
+      const toItem = ({ line, ...origin }: ImportOrigin): ImportOrigin => ({ ...origin, item: line });
+      return {
+        format: 'base64',
+        nodes: nodes.map(({ node, origin }) => ({ node, origin: toItem(origin) })),
+        diagnostics: diagnostics.map(({ level, reason, ...origin }) => ({ ...toItem(origin), level, reason }))
+      };
     }
   }
 
-  return entries;
-};
\ No newline at end of file
+  return null;
+};
+
+/**
+ * 校验地址与端口并按 ip:port 去重，生成条目；无效或重复的节点记入诊断
+ * 文本、订阅容器与文件导入（CSV / 备份 JSON）共用
+ */
+export const buildParseResult = (format: ImportFormat, nodes: LocatedNode[], diagnostics: ImportDiagnostic[] = []): ParseResult => {
+  const result: ParseResult = { entries: [], sources: {}, diagnostics: [...diagnostics], origins: {} };
+
+  const seen = new Map<string, ImportOrigin>();
+  nodes.forEach(({ node, origin }) => {
+    const reason = validateHostPort(node.ip, node.port);
+    if (reason) {
+      result.diagnostics.push({ ...origin, level: 'rejected', reason });
+      return;
+    }
+    const key = `${node.ip}:${node.port}`;
+    const first = seen.get(key);
+    if (first) {
+      result.diagnostics.push({ ...origin, level: 'skipped', reason: `与${formatOrigin(first) || '前面的节点'}重复` });
+      return;
+    }
+    seen.set(key, origin);
+    const entry: IpEntry = { id: uuidv4(), active: true, ...node };
+    result.entries.push(entry);
+    result.origins[entry.id] = origin;
+  });
+
+  if (nodes.length > 0) result.sources[format] = nodes.length;
+  return result;
+};
+
+/**
+ * 批量导入入口：
+ * 先识别测速结果与订阅容器格式（CloudflareST CSV / Base64 / Clash YAML / sing-box JSON），否则按文本解析，
+ * 统一校验并按 ip:port 去重后生成 IpEntry
+ */
+export const parseBatchInput = (text: string, cidrOptions: CidrImportOptions = DEFAULT_CIDR_OPTIONS): ParseResult => {
+  if (!text) return buildParseResult('text', []);
+
+  const container = detectContainer(text);
+  const { nodes, diagnostics } = container ?? extractTextNodes(text, cidrOptions);
+  return buildParseResult(container ? container.format : 'text', nodes, diagnostics);
+};
@@ -0,0 +1,185 @@
+import { IpEntry } from '../types';
+import { getIpVersion, ipToBigInt, isIpInRange, parseCidr } from './ip';
+import { formatAsn } from './geoDetails';
+
+/**
+ * 列表搜索语法：
+ * - 自由文本：匹配 IP、端口、地区、备注、协议、运营商、城市
+ * - 字段条件：port:443  region:HK,JP  ip:104.16.0.0/13  ip:v6  active:false  latency:<200
+ * - 前缀 "-" 表示取反，例如 -region:US
+ * - 同一条件内逗号分隔表示"或"，多个条件之间为"且"；含空格的值可用双引号包裹
+ */
+export type QueryField =
+  | 'ip' | 'port' | 'region' | 'active' | 'protocol' | 'remark'
+  | 'asn' | 'org' | 'city' | 'colo' | 'latency' | 'loss' | 'speed';
+
+export const QUERY_FIELDS: { field: QueryField; example: string }[] = [
+  { field: 'ip', example: 'ip:104.16.0.0/13' },
+  { field: 'port', example: 'port:443,2053' },
+  { field: 'region', example: 'region:HK,JP' },
+  { field: 'active', example: 'active:false' },
+  { field: 'protocol', example: 'protocol:vless' },
+  { field: 'asn', example: 'asn:13335' },
+  { field: 'org', example: 'org:cloudflare' },
+  { field: 'city', example: 'city:"Hong Kong"' },
+  { field: 'colo', example: 'colo:HKG' },
+  { field: 'latency', example: 'latency:<200' },
+  { field: 'loss', example: 'loss:0' },
+  { field: 'speed', example: 'speed:>=10' },
+  { field: 'remark', example: 'remark:备用' }
+];
+
+const FIELD_NAMES = new Set<string>(QUERY_FIELDS.map(f => f.field));
+
+type Matcher = (entry: IpEntry) => boolean;
+
+interface QueryTerm {
+  field: QueryField | null; // null 表示自由文本
+  negate: boolean;
+  match: Matcher;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: string[];
+  fields: Set<QueryField>; // 查询中出现过的字段
+}
+
+/**
+ * 按空白拆分，保留双引号内的空格
+ */
+const tokenize = (query: string): string[] =>
+  (query.match(/(?:[^\s"]+|"[^"]*")+/g) || []).map(token => token.replace(/"/g, ''));
+
+const includesText = (value: string | undefined, needle: string) =>
+  !!value && value.toLowerCase().includes(needle);
+
+/**
+ * 数值比较：<200、<=200、>10、>=10、100-300、=0 或直接写数值
+ */
+const parseNumberCondition = (text: string): ((value: number) => boolean) | null => {
+  const range = text.match(/^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return value => value >= min && value <= max;
+  }
+  const compare = text.match(/^(<=|>=|<|>|=)?(\d+(?:\.\d+)?)$/);
+  if (!compare) return null;
+  const target = Number(compare[2]);
+  switch (compare[1]) {
+    case '<': return value => value < target;
+    case '<=': return value => value <= target;
+    case '>': return value => value > target;
+    case '>=': return value => value >= target;
+    default: return value => value === target;
+  }
+};
+
+const buildIpMatcher = (value: string): Matcher | string => {
+  const lower = value.toLowerCase();
+  if (lower === 'v4' || lower === 'v6' || lower === '4' || lower === '6') {
+    const version = lower.endsWith('4') ? 4 : 6;
+    return entry => getIpVersion(entry.ip) === version;
+  }
+  if (value.includes('/')) {
+    const range = parseCidr(value);
+    if (!range) return `无效的 CIDR：${value}`;
+    return entry => isIpInRange(entry.ip, range);
+  }
+  // 完整 IP 按数值比较（兼容 IPv6 的不同写法），否则按子串匹配
+  const exact = ipToBigInt(value);
+  if (exact) {
+    return entry => {
+      const parsed = ipToBigInt(entry.ip);
+      return !!parsed && parsed.version === exact.version && parsed.value === exact.value;
+    };
+  }
+  return entry => includesText(entry.ip, lower);
+};
+
+const buildValueMatcher = (field: QueryField, value: string): Matcher | string => {
+  const lower = value.toLowerCase();
+  switch (field) {
+    case 'ip': return buildIpMatcher(value);
+    case 'port': {
+      const condition = parseNumberCondition(value);
+      if (!condition) return `无效的端口条件：${value}`;
+      return entry => entry.port !== '' && condition(Number(entry.port));
+    }
+    case 'region': return entry => entry.region?.toLowerCase() === lower;
+    case 'active': {
+      if (!['true', 'false', 'yes', 'no', '1', '0'].includes(lower)) return `active 只能为 true 或 false`;
+      const expected = ['true', 'yes', '1'].includes(lower);
+      return entry => entry.active === expected;
+    }
+    case 'protocol': return entry => (entry.protocol || '').toLowerCase() === lower;
+    case 'remark': return entry => includesText(entry.remark, lower);
+    case 'asn': {
+      const asn = lower.replace(/^as/, '');
+      return entry => !!entry.geo?.asn && String(entry.geo.asn) === asn;
+    }
+    case 'org': return entry => includesText(entry.geo?.org, lower);
+    case 'city': return entry => includesText(entry.geo?.city, lower);
+    case 'colo': return entry => (entry.metrics?.colo || '').toLowerCase() === lower;
+    case 'latency':
+    case 'loss':
+    case 'speed': {
+      // 丢包率按百分比书写，例如 loss:<5 表示低于 5%
+      const condition = parseNumberCondition(value.replace(/%$/, ''));
+      if (!condition) return `无效的 ${field} 条件：${value}`;
+      return entry => {
+        const metric = entry.metrics?.[field];
+        if (metric === undefined) return false;
+        return condition(field === 'loss' ? Math.round(metric * 10000) / 100 : metric);
+      };
+    }
+  }
+};
+
+export const parseQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = { terms: [], errors: [], fields: new Set() };
+
+  tokenize(query).forEach(rawToken => {
+    const negate = rawToken.startsWith('-') && rawToken.length > 1;
+    const token = negate ? rawToken.slice(1) : rawToken;
+    const separator = token.indexOf(':');
+    const key = separator > 0 ? token.slice(0, separator).toLowerCase() : '';
+
+    // IPv6 地址本身含冒号，未知字段名一律按自由文本处理
+    if (!FIELD_NAMES.has(key)) {
+      const needle = token.toLowerCase();
+      parsed.terms.push({
+        field: null,
+        negate,
+        match: entry => [
+          entry.ip, entry.port, entry.region, entry.remark, entry.protocol,
+          entry.geo?.org, entry.geo?.city, formatAsn(entry.geo?.asn), entry.metrics?.colo
+        ].some(value => includesText(value, needle))
+      });
+      return;
+    }
+
+    const field = key as QueryField;
+    const values = token.slice(separator + 1).split(',').map(v => v.trim()).filter(Boolean);
+    if (values.length === 0) {
+      parsed.errors.push(`${field}: 缺少条件值`);
+      return;
+    }
+
+    const matchers: Matcher[] = [];
+    values.forEach(value => {
+      const matcher = buildValueMatcher(field, value);
+      if (typeof matcher === 'string') parsed.errors.push(matcher);
+      else matchers.push(matcher);
+    });
+    if (matchers.length === 0) return;
+
+    parsed.fields.add(field);
+    parsed.terms.push({ field, negate, match: entry => matchers.some(match => match(entry)) });
+  });
+
+  return parsed;
+};
+
+export const matchesQuery = (entry: IpEntry, query: ParsedQuery): boolean =>
+  query.terms.every(term => term.match(entry) !== term.negate);
@@ -0,0 +1,74 @@
+import { IpEntry, SortField, SortState } from '../types';
+import { ipToBigInt } from './ip';
+import { isResolvedRegion } from './formatter';
+
+export const SORT_FIELD_LABELS: Record<SortField, string> = {
+  ip: '节点地址',
+  port: '端口',
+  region: '地区',
+  asn: 'ASN',
+  org: '运营商',
+  city: '城市',
+  latency: '延迟',
+  loss: '丢包',
+  speed: '速度'
+};
+
+type SortKey = number | bigint | string | null;
+
+/**
+ * 各字段的排序键，null 表示缺失，始终排在最后
+ */
+const getSortKey = (entry: IpEntry, field: SortField): SortKey => {
+  switch (field) {
+    case 'ip': {
+      // IPv4 整体排在 IPv6 之前
+      const parsed = ipToBigInt(entry.ip);
+      return parsed ? (parsed.version === 4 ? parsed.value : parsed.value + (1n << 32n)) : entry.ip || null;
+    }
+    case 'port': {
+      const port = Number(entry.port);
+      return Number.isFinite(port) && entry.port !== '' ? port : null;
+    }
+    case 'region': return isResolvedRegion(entry.region) ? entry.region! : null;
+    case 'asn': return entry.geo?.asn ?? null;
+    case 'org': return entry.geo?.org ?? null;
+    case 'city': return entry.geo?.city ?? null;
+    case 'latency':
+      // 超时视为最大延迟，未测试的始终排在最后
+      if (entry.metrics?.timedOut) return Number.MAX_SAFE_INTEGER;
+      return entry.metrics?.latency ?? null;
+    case 'loss': return entry.metrics?.loss ?? null;
+    case 'speed': return entry.metrics?.speed ?? null;
+  }
+};
+
+const compareKeys = (a: Exclude<SortKey, null>, b: Exclude<SortKey, null>): number => {
+  if (typeof a === 'string' || typeof b === 'string') {
+    // 数值（可解析的 IP）排在无法解析的主机名之前
+    if (typeof a !== 'string') return -1;
+    if (typeof b !== 'string') return 1;
+    return a.localeCompare(b);
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * 按指定字段排序，锁定项始终置顶，缺失值始终排在末尾；排序稳定
+ */
+export const sortEntries = (entries: IpEntry[], sort: SortState | null): IpEntry[] => {
+  if (!sort) return entries;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+
+  return entries
+    .map((entry, index) => ({ entry, index, key: getSortKey(entry, sort.field) }))
+    .sort((a, b) => {
+      if (!!a.entry.isLocked !== !!b.entry.isLocked) return a.entry.isLocked ? -1 : 1;
+      if (a.key === null || b.key === null) {
+        if (a.key !== b.key) return a.key === null ? 1 : -1;
+        return a.index - b.index;
+      }
+      return compareKeys(a.key, b.key) * factor || a.index - b.index;
+    })
+    .map(item => item.entry);
+};
@@ -0,0 +1,103 @@
+import { IpEntry, NodeMetrics } from '../types';
+
+/**
+ * CloudflareSpeedTest (CloudflareST) 及同类工具的 result.csv：
+ * IP 地址,已发送,已接收,丢包率,平均延迟,下载速度 (MB/s)[,地区码]
+ * 英文版本表头为 IP Address,Sent,Received,Packet Loss,Average Latency,Download Speed (MB/s)[,Colo]
+ * 结果中不含端口，统一使用测速时的默认端口
+ */
+export const SPEEDTEST_DEFAULT_PORT = '443';
+
+type SpeedTestColumn = 'ip' | 'sent' | 'received' | 'loss' | 'latency' | 'speed' | 'colo';
+
+const COLUMN_ALIASES: Record<SpeedTestColumn, string[]> = {
+  ip: ['ip地址', 'ipaddress', 'ip'],
+  sent: ['已发送', 'sent'],
+  received: ['已接收', 'received'],
+  loss: ['丢包率', 'packetloss', 'loss', 'lossrate'],
+  latency: ['平均延迟', 'averagelatency', 'avglatency', 'latency', 'delay'],
+  speed: ['下载速度', 'downloadspeed', 'speed'],
+  colo: ['地区码', 'colo', 'datacenter', '数据中心']
+};
+
+// 去掉空格与括号中的单位，例如 "下载速度 (MB/s)" -> "下载速度"
+const normalizeHeader = (cell: string) =>
+  cell.replace(/^\uFEFF/, '').toLowerCase().replace(/[（(].*?[)）]/g, '').replace(/[\s_-]+/g, '');
+
+type ColumnIndex = Partial<Record<SpeedTestColumn, number>>;
+
+const matchHeader = (row: string[]): ColumnIndex | null => {
+  const normalized = row.map(normalizeHeader);
+  const index: ColumnIndex = {};
+  (Object.keys(COLUMN_ALIASES) as SpeedTestColumn[]).forEach(column => {
+    const found = normalized.findIndex(cell => COLUMN_ALIASES[column].includes(cell));
+    if (found >= 0) index[column] = found;
+  });
+  // 必须同时具备 IP、延迟以及至少一项其他测速指标，避免误判普通 CSV
+  const hasMetric = index.loss !== undefined || index.speed !== undefined || index.received !== undefined;
+  return index.ip === 0 && index.latency !== undefined && hasMetric ? index : null;
+};
+
+const parseNumber = (cell?: string): number | undefined => {
+  if (cell === undefined) return undefined;
+  const value = parseFloat(cell.replace(/[^\d.\-]/g, ''));
+  return Number.isFinite(value) ? value : undefined;
+};
+
+// 丢包率可能是 0.25 或 25.00%
+const parseLoss = (cell?: string): number | undefined => {
+  const value = parseNumber(cell);
+  if (value === undefined) return undefined;
+  return cell!.includes('%') || value > 1 ? value / 100 : value;
+};
+
+const splitAddress = (cell: string, defaultPort: string): { ip: string; port: string } => {
+  const v6 = cell.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (v6) return { ip: v6[1], port: v6[2] || defaultPort };
+  const v4 = cell.match(/^([^:]+):(\d+)$/);
+  if (v4) return { ip: v4[1], port: v4[2] };
+  return { ip: cell, port: defaultPort };
+};
+
+/**
+ * 解析测速结果表格（含表头），不是测速结果时返回 null
+ */
+export const parseSpeedTestRows = (rows: string[][], defaultPort = SPEEDTEST_DEFAULT_PORT): Omit<IpEntry, 'id' | 'active'>[] | null => {
+  if (rows.length === 0) return null;
+  const index = matchHeader(rows[0]);
+  if (!index) return null;
+
+  const checkedAt = Date.now();
+  const cell = (row: string[], column: SpeedTestColumn) =>
+    index[column] === undefined ? undefined : row[index[column]!]?.trim();
+
+  return rows.slice(1).flatMap(row => {
+    const address = cell(row, 'ip');
+    if (!address) return [];
+    const { ip, port } = splitAddress(address, defaultPort);
+
+    const colo = cell(row, 'colo')?.toUpperCase();
+    const metrics: NodeMetrics = {
+      latency: parseNumber(cell(row, 'latency')),
+      loss: parseLoss(cell(row, 'loss')),
+      speed: parseNumber(cell(row, 'speed')),
+      colo: colo && colo !== 'N/A' ? colo : undefined,
+      timedOut: parseNumber(cell(row, 'received')) === 0 || undefined,
+      checkedAt
+    };
+    if (metrics.timedOut) metrics.latency = undefined;
+    else if (metrics.latency !== undefined) metrics.latency = Math.round(metrics.latency);
+    (Object.keys(metrics) as (keyof NodeMetrics)[]).forEach(key => metrics[key] === undefined && delete metrics[key]);
+
+    return [{ ip, port, region: '', metrics }];
+  });
+};
+
+/**
+ * 文本形式的测速结果（工具输出的 CSV 不含引号，可直接按逗号拆分）
+ */
+export const parseSpeedTestText = (text: string, defaultPort = SPEEDTEST_DEFAULT_PORT) =>
+  parseSpeedTestRows(
+    text.trim().split(/\r?\n/).filter(line => line.trim()).map(line => line.split(',')),
+    defaultPort
+  );
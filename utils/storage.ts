@@ -0,0 +1,252 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IpEntry } from '../types';
+import { idbGet, idbSet } from './idb';
+import { EMPTY_GEO_FILTERS } from './geoDetails';
+import {
+  Workspace, WorkspaceStore, DEFAULT_WORKSPACE_ID, DEFAULT_WORKSPACE_FILTERS, withPlaceholder
+} from './workspace';
+
+/**
+ * 列表数据的持久化：
+ * - v1：单个列表数组，localStorage 'ip-manager-pro-v1.1'
+ * - v2：多工作区 { activeId, workspaces }，localStorage 'ip-manager-pro-workspaces-v1'
+ * - v3：带版本号的 { version, savedAt, data } 存入 IndexedDB，不再受 localStorage 5MB 限制
+ * 加载时逐级迁移到当前版本并校验每个条目；数据损坏时保留原始内容供用户备份，不会静默丢弃
+ */
+export const SCHEMA_VERSION = 3;
+
+const IDB_KEY = 'app-data';
+const IDB_BACKUP_KEY = 'app-data-backup';
+const FALLBACK_STORAGE_KEY = 'ip-manager-pro-data'; // IndexedDB 不可用时的备用存储
+const V2_STORAGE_KEY = 'ip-manager-pro-workspaces-v1';
+const V1_STORAGE_KEY = 'ip-manager-pro-v1.1';
+const SAVE_DELAY = 300;
+
+interface StoredEnvelope {
+  version: number;
+  savedAt: number;
+  data: WorkspaceStore;
+}
+
+export type LoadStatus = 'ok' | 'recovered' | 'failed';
+
+export interface LoadResult {
+  status: LoadStatus; // recovered：部分条目无效已跳过；failed：无法读取，已使用空列表
+  store: WorkspaceStore;
+  problems: string[];
+  backup?: string; // 原始数据，出现问题时供用户下载
+  migratedFrom?: number;
+}
+
+export const createDefaultStore = (entries: IpEntry[] = []): WorkspaceStore => ({
+  activeId: DEFAULT_WORKSPACE_ID,
+  workspaces: [{ id: DEFAULT_WORKSPACE_ID, name: '默认列表', entries: withPlaceholder(entries), filters: DEFAULT_WORKSPACE_FILTERS }]
+});
+
+// 第 n 项将 v(n+1) 的数据升级为 v(n+2)
+const MIGRATIONS: ((data: unknown) => unknown)[] = [
+  // v1 -> v2：单个列表成为默认工作区
+  entries => {
+    if (!Array.isArray(entries)) throw new Error('v1 数据应为条目数组');
+    return createDefaultStore(entries);
+  },
+  // v2 -> v3：结构不变，仅迁移到 IndexedDB
+  store => store
+];
+
+const migrate = (version: number, data: unknown): unknown => {
+  if (!Number.isInteger(version) || version < 1) throw new Error(`无法识别的数据版本：${version}`);
+  if (version > SCHEMA_VERSION) throw new Error(`数据来自更新的版本 (v${version})，当前仅支持 v${SCHEMA_VERSION}`);
+  return MIGRATIONS.slice(version - 1).reduce((current, step) => step(current), data);
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+/**
+ * 校验单个条目，缺失的非关键字段补默认值，IP 缺失时视为无效
+ */
+export const validateEntry = (raw: unknown): IpEntry | null => {
+  if (!isRecord(raw) || typeof raw.ip !== 'string' || !raw.ip.trim()) return null;
+  const entry: IpEntry = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : uuidv4(),
+    ip: raw.ip.trim(),
+    port: typeof raw.port === 'number' ? String(raw.port) : optionalString(raw.port) ?? '',
+    region: optionalString(raw.region) ?? '待识别',
+    active: typeof raw.active === 'boolean' ? raw.active : true,
+    isLocked: raw.isLocked === true || undefined,
+    protocol: optionalString(raw.protocol),
+    auth: optionalString(raw.auth),
+    path: optionalString(raw.path),
+    params: isRecord(raw.params) ? raw.params : undefined,
+    remark: optionalString(raw.remark),
+    geo: isRecord(raw.geo) ? raw.geo : undefined,
+    metrics: isRecord(raw.metrics) ? raw.metrics : undefined
+  };
+  (Object.keys(entry) as (keyof IpEntry)[]).forEach(key => entry[key] === undefined && delete entry[key]);
+  return entry;
+};
+
+const validateWorkspace = (raw: unknown, problems: string[]): Workspace | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !Array.isArray(raw.entries)) return null;
+  const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name : '未命名列表';
+
+  const seenIds = new Set<string>();
+  const entries: IpEntry[] = [];
+  raw.entries.forEach((item: unknown) => {
+    const entry = validateEntry(item);
+    if (!entry) return;
+    // 重复 id 会导致拖拽与选择错乱，重新分配
+    if (seenIds.has(entry.id)) entry.id = uuidv4();
+    seenIds.add(entry.id);
+    entries.push(entry);
+  });
+  const invalid = raw.entries.length - entries.length;
+  if (invalid > 0) problems.push(`「${name}」中 ${invalid} 个条目无法识别，已跳过`);
+
+  const filters = isRecord(raw.filters) ? raw.filters : {};
+  return {
+    id: raw.id,
+    name,
+    entries: withPlaceholder(entries),
+    filters: {
+      ...DEFAULT_WORKSPACE_FILTERS,
+      includeInactive: filters.includeInactive === true,
+      query: typeof filters.query === 'string' ? filters.query : '',
+      sort: isRecord(filters.sort) ? filters.sort as Workspace['filters']['sort'] : null,
+      geoFilters: { ...EMPTY_GEO_FILTERS, ...(isRecord(filters.geoFilters) ? filters.geoFilters : {}) }
+    }
+  };
+};
+
+const validateStore = (data: unknown): { store: WorkspaceStore; problems: string[] } => {
+  if (!isRecord(data) || !Array.isArray(data.workspaces)) throw new Error('数据结构无法识别');
+  const problems: string[] = [];
+  const workspaces = data.workspaces
+    .map((raw: unknown) => validateWorkspace(raw, problems))
+    .filter((w: Workspace | null): w is Workspace => !!w);
+
+  const skipped = data.workspaces.length - workspaces.length;
+  if (skipped > 0) problems.push(`${skipped} 个列表无法识别，已跳过`);
+  if (workspaces.length === 0) {
+    if (data.workspaces.length > 0) problems.push('没有可用的列表，已创建空的默认列表');
+    return { store: createDefaultStore(), problems };
+  }
+
+  const activeId = workspaces.some((w: Workspace) => w.id === data.activeId) ? data.activeId : workspaces[0].id;
+  return { store: { activeId, workspaces }, problems };
+};
+
+interface DataSource {
+  read: () => { version: number; data: unknown };
+  backup: () => string;
+}
+
+const readEnvelope = (value: unknown) => {
+  if (!isRecord(value) || typeof value.version !== 'number') throw new Error('缺少数据版本号');
+  return { version: value.version, data: value.data };
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('数据不是有效的 JSON，可能已被截断');
+  }
+};
+
+const fromLocalStorage = (key: string, read: (text: string) => { version: number; data: unknown }): DataSource | null => {
+  const text = localStorage.getItem(key);
+  return text === null ? null : { read: () => read(text), backup: () => text };
+};
+
+const savedAtOf = (value: unknown): number => (isRecord(value) && typeof value.savedAt === 'number' ? value.savedAt : 0);
+
+/**
+ * 按优先级查找已保存的数据：IndexedDB → 备用 localStorage → v2 → v1
+ * IndexedDB 写入失败时较新的数据只在备用存储中，两者都存在时取 savedAt 较新的一份
+ */
+const findSource = async (): Promise<DataSource | null> => {
+  const fallback = fromLocalStorage(FALLBACK_STORAGE_KEY, text => readEnvelope(parseJson(text)));
+  let fallbackSavedAt = 0;
+  try {
+    if (fallback) fallbackSavedAt = savedAtOf(JSON.parse(fallback.backup()));
+  } catch {
+    // 备用数据已损坏，不参与比较
+  }
+
+  try {
+    const stored = await idbGet<unknown>(IDB_KEY);
+    if (stored !== undefined) {
+      if (fallback && fallbackSavedAt > savedAtOf(stored)) return fallback;
+      return { read: () => readEnvelope(stored), backup: () => JSON.stringify(stored, null, 2) };
+    }
+  } catch (e) {
+    console.error('IndexedDB unavailable', e);
+  }
+  return fallback
+    ?? fromLocalStorage(V2_STORAGE_KEY, text => ({ version: 2, data: parseJson(text) }))
+    ?? fromLocalStorage(V1_STORAGE_KEY, text => ({ version: 1, data: parseJson(text) }));
+};
+
+const saveBackup = (raw: string) =>
+  idbSet(IDB_BACKUP_KEY, { savedAt: Date.now(), raw }).catch(e => console.error('Failed to save backup', e));
+
+export const loadAppData = async (): Promise<LoadResult> => {
+  const source = await findSource();
+  if (!source) return { status: 'ok', store: createDefaultStore(), problems: [] };
+
+  try {
+    const { version, data } = source.read();
+    const { store, problems } = validateStore(migrate(version, data));
+    const migratedFrom = version < SCHEMA_VERSION ? version : undefined;
+    if (problems.length === 0) return { status: 'ok', store, problems, migratedFrom };
+
+    const backup = source.backup();
+    await saveBackup(backup);
+    return { status: 'recovered', store, problems, backup, migratedFrom };
+  } catch (e) {
+    console.error("Storage corrupted", e);
+    const backup = source.backup();
+    await saveBackup(backup);
+    return {
+      status: 'failed',
+      store: createDefaultStore(),
+      problems: [e instanceof Error ? e.message : String(e)],
+      backup
+    };
+  }
+};
+
+let saveTimer: number | null = null;
+let pending: WorkspaceStore | null = null;
+
+export const flushAppData = () => {
+  if (saveTimer !== null) window.clearTimeout(saveTimer);
+  saveTimer = null;
+  if (!pending) return;
+  const envelope: StoredEnvelope = { version: SCHEMA_VERSION, savedAt: Date.now(), data: pending };
+  pending = null;
+  idbSet(IDB_KEY, envelope).then(() => {
+    // 写入成功后备用存储中的数据已过时
+    localStorage.removeItem(FALLBACK_STORAGE_KEY);
+  }, e => {
+    console.error('Failed to save to IndexedDB, falling back to localStorage', e);
+    try {
+      localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(envelope));
+    } catch (err) {
+      console.error('Failed to save data', err);
+    }
+  });
+};
+
+/**
+ * 变更延迟合并写入；页面关闭前应调用 flushAppData
+ */
+export const saveAppData = (store: WorkspaceStore) => {
+  pending = store;
+  if (saveTimer !== null) window.clearTimeout(saveTimer);
+  saveTimer = window.setTimeout(flushAppData, SAVE_DELAY);
+};
@@ -0,0 +1,62 @@
+import { parseIpv6 } from './ip';
+
+/**
+ * 地址与端口校验：智能解析、手动添加与行内编辑共用
+ * 校验通过返回 null，否则返回可直接展示给用户的原因
+ */
+
+export const validatePort = (port: string): string | null => {
+  const value = port.trim();
+  if (!value) return '端口不能为空';
+  if (!/^\d+$/.test(value)) return `端口 ${value} 不是数字`;
+  const num = Number(value);
+  if (num < 1 || num > 65535) return `端口 ${value} 超出 1-65535`;
+  return null;
+};
+
+const validateIpv4 = (ip: string): string | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || parts.some(part => !part)) return `IPv4 地址 ${ip} 应为 4 段数字`;
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (part.length > 3 || Number(part) > 255) return `IPv4 地址 ${ip} 第 ${i + 1} 段超出 0-255`;
+    // 前导零在部分系统中按八进制解析，容易产生歧义
+    if (part.length > 1 && part.startsWith('0')) return `IPv4 地址 ${ip} 第 ${i + 1} 段存在前导零`;
+  }
+  return null;
+};
+
+const validateIpv6 = (ip: string): string | null => {
+  const [address, zone] = ip.split('%');
+  if (ip.split('%').length > 2 || (zone !== undefined && !/^[\w.~-]+$/.test(zone))) return `IPv6 地址 ${ip} 的 zone 无效`;
+  if (!/^[0-9a-fA-F:.]+$/.test(address)) return `IPv6 地址 ${ip} 包含非法字符`;
+  if (address.split('::').length > 2) return `IPv6 地址 ${ip} 只能包含一个 "::"`;
+  if (address.split(':').some(group => group.length > 4 && !group.includes('.'))) return `IPv6 地址 ${ip} 的分组超过 4 位`;
+  return parseIpv6(ip) === null ? `IPv6 地址 ${ip} 格式无效` : null;
+};
+
+/**
+ * RFC 1123 主机名：每段 1-63 位字母数字或连字符，首尾不能为连字符，总长不超过 253
+ * 顶级域不能全为数字，避免把 999.1.1.1 这类无效 IP 当作域名
+ */
+export const isValidHostname = (host: string): boolean => {
+  const name = host.endsWith('.') ? host.slice(0, -1) : host;
+  if (!name || name.length > 253) return false;
+  const labels = name.split('.');
+  return labels.every(label => /^[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/.test(label))
+    && !/^\d+$/.test(labels[labels.length - 1]);
+};
+
+/**
+ * 校验 IPv4 / IPv6（可带中括号与 %zone）或域名
+ */
+export const validateHost = (host: string): string | null => {
+  const value = host.trim().replace(/^\[(.*)\]$/, '$1');
+  if (!value) return 'IP 或域名不能为空';
+  if (value.includes(':')) return validateIpv6(value);
+  if (/^[\d.]+$/.test(value)) return validateIpv4(value);
+  return isValidHostname(value) ? null : `域名 ${value} 格式无效`;
+};
+
+export const validateHostPort = (host: string, port: string): string | null =>
+  validateHost(host) ?? validatePort(port);
@@ -0,0 +1,85 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IpEntry, SortState } from '../types';
+import { GeoFilters, EMPTY_GEO_FILTERS } from './geoDetails';
+
+/**
+ * 多列表（工作区）：每个工作区拥有独立的节点列表与筛选条件，持久化见 storage.ts
+ */
+export const DEFAULT_WORKSPACE_ID = 'default';
+export const FIXED_ID = 'fixed-placeholder-system-001';
+
+export const INITIAL_FIXED_ENTRY: IpEntry = {
+  id: FIXED_ID,
+  ip: '127.0.0.1',
+  port: '80',
+  region: 'LOCAL',
+  active: true,
+  isLocked: true
+};
+
+export interface WorkspaceFilters {
+  includeInactive: boolean;
+  geoFilters: GeoFilters;
+  query: string;
+  sort: SortState | null;
+}
+
+export const DEFAULT_WORKSPACE_FILTERS: WorkspaceFilters = {
+  includeInactive: false,
+  geoFilters: EMPTY_GEO_FILTERS,
+  query: '',
+  sort: null
+};
+
+export interface Workspace {
+  id: string;
+  name: string;
+  entries: IpEntry[];
+  filters: WorkspaceFilters;
+}
+
+export interface WorkspaceStore {
+  activeId: string;
+  workspaces: Workspace[];
+}
+
+/**
+ * 保证锁定占位条目始终位于列表首位
+ */
+export const withPlaceholder = (entries: IpEntry[]): IpEntry[] => [
+  INITIAL_FIXED_ENTRY,
+  ...entries.filter(e => e.id !== FIXED_ID)
+];
+
+/**
+ * 新条目插入到锁定条目之后，确保在第一页可见
+ */
+export const insertAfterPlaceholder = (entries: IpEntry[], added: IpEntry[]): IpEntry[] => {
+  const fixed = entries.filter(e => e.id === FIXED_ID);
+  const others = entries.filter(e => e.id !== FIXED_ID);
+  return [...fixed, ...added, ...others];
+};
+
+export const createWorkspace = (name: string, entries: IpEntry[] = []): Workspace => ({
+  id: uuidv4(),
+  name,
+  entries: withPlaceholder(entries),
+  filters: DEFAULT_WORKSPACE_FILTERS
+});
+
+/**
+ * 复制条目到其他工作区时重新分配 id，避免两个列表之间的条目互相关联
+ */
+export const cloneEntries = (entries: IpEntry[]): IpEntry[] =>
+  entries.filter(e => !e.isLocked).map(e => ({ ...e, id: uuidv4() }));
+
+/**
+ * 生成不与现有名称重复的工作区名，例如 "列表 2"、"HK 副本"
+ */
+export const uniqueWorkspaceName = (base: string, workspaces: Workspace[]): string => {
+  const names = new Set(workspaces.map(w => w.name));
+  if (!names.has(base)) return base;
+  let index = 2;
+  while (names.has(`${base} ${index}`)) index++;
+  return `${base} ${index}`;
+};